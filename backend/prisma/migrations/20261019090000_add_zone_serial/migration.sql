@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Domain" ADD COLUMN     "serial" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "zoneHash" TEXT;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "SOAProfile" (
+    "id" TEXT NOT NULL,
+    "domainId" TEXT NOT NULL,
+    "primaryNs" TEXT NOT NULL,
+    "contact" TEXT NOT NULL,
+    "refresh" INTEGER NOT NULL DEFAULT 3600,
+    "retry" INTEGER NOT NULL DEFAULT 1800,
+    "expire" INTEGER NOT NULL DEFAULT 1209600,
+    "minimum" INTEGER NOT NULL DEFAULT 86400,
+    "defaultTtl" INTEGER NOT NULL DEFAULT 86400,
+    "apexAddress" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SOAProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "NameServer" (
+    "id" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "hostname" TEXT NOT NULL,
+    "ipv4" TEXT,
+    "ipv6" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "NameServer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SOAProfile_domainId_key" ON "SOAProfile"("domainId");
+
+-- AddForeignKey
+ALTER TABLE "SOAProfile" ADD CONSTRAINT "SOAProfile_domainId_fkey" FOREIGN KEY ("domainId") REFERENCES "Domain"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NameServer" ADD CONSTRAINT "NameServer_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "SOAProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
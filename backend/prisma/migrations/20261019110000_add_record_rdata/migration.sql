@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "DNSRecord" ADD COLUMN     "rdata" JSONB;
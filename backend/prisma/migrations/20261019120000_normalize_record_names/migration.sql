@@ -0,0 +1,12 @@
+-- Store owner names relative to their zone, lower case, '@' for the apex.
+-- Absolute names outside the zone are left alone (they are not published).
+UPDATE "DNSRecord" AS r
+SET "name" = CASE
+    WHEN lower(rtrim(r."name", '.')) IN ('', '@', lower(d."name")) THEN '@'
+    WHEN right(lower(rtrim(r."name", '.')), length(d."name") + 1) = '.' || lower(d."name")
+      THEN left(lower(rtrim(r."name", '.')), length(rtrim(r."name", '.')) - length(d."name") - 1)
+    WHEN r."name" LIKE '%.' THEN r."name"
+    ELSE lower(r."name")
+  END
+FROM "Domain" AS d
+WHERE r."domainId" = d."id";
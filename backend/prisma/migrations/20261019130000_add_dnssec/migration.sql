@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Domain" ADD COLUMN     "dnssecEnabled" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "DNSSECKey" (
+    "id" TEXT NOT NULL,
+    "domainId" TEXT NOT NULL,
+    "keyTag" INTEGER NOT NULL,
+    "role" TEXT NOT NULL,
+    "algorithm" INTEGER NOT NULL,
+    "flags" INTEGER NOT NULL,
+    "publicKey" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "dsState" TEXT,
+    "publishedAt" TIMESTAMP(3),
+    "activatedAt" TIMESTAMP(3),
+    "retireAt" TIMESTAMP(3),
+    "removeAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DNSSECKey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DNSSECKey_domainId_keyTag_algorithm_key" ON "DNSSECKey"("domainId", "keyTag", "algorithm");
+
+-- AddForeignKey
+ALTER TABLE "DNSSECKey" ADD CONSTRAINT "DNSSECKey_domainId_fkey" FOREIGN KEY ("domainId") REFERENCES "Domain"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Domain" ADD COLUMN     "zoneType" TEXT NOT NULL DEFAULT 'primary',
+ADD COLUMN     "primaries" TEXT[],
+ADD COLUMN     "transferKey" TEXT;
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "TSIGKey" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "algorithm" TEXT NOT NULL DEFAULT 'hmac-sha256',
+    "secret" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rotatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "TSIGKey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ZoneACLEntry" (
+    "id" TEXT NOT NULL,
+    "domainId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "address" TEXT,
+    "keyId" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "ZoneACLEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TSIGKey_name_key" ON "TSIGKey"("name");
+
+-- AddForeignKey
+ALTER TABLE "TSIGKey" ADD CONSTRAINT "TSIGKey_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ZoneACLEntry" ADD CONSTRAINT "ZoneACLEntry_domainId_fkey" FOREIGN KEY ("domainId") REFERENCES "Domain"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ZoneACLEntry" ADD CONSTRAINT "ZoneACLEntry_keyId_fkey" FOREIGN KEY ("keyId") REFERENCES "TSIGKey"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "View" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "matchClients" TEXT[],
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "View_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_DNSRecordToView" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "View_name_key" ON "View"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_DNSRecordToView_AB_unique" ON "_DNSRecordToView"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_DNSRecordToView_B_index" ON "_DNSRecordToView"("B");
+
+-- AddForeignKey
+ALTER TABLE "_DNSRecordToView" ADD CONSTRAINT "_DNSRecordToView_A_fkey" FOREIGN KEY ("A") REFERENCES "DNSRecord"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_DNSRecordToView" ADD CONSTRAINT "_DNSRecordToView_B_fkey" FOREIGN KEY ("B") REFERENCES "View"("id") ON DELETE CASCADE ON UPDATE CASCADE;
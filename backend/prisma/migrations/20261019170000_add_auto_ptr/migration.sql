@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "DNSRecord" ADD COLUMN     "autoPtr" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "ptrSourceId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DNSRecord_ptrSourceId_key" ON "DNSRecord"("ptrSourceId");
+
+-- AddForeignKey
+ALTER TABLE "DNSRecord" ADD CONSTRAINT "DNSRecord_ptrSourceId_fkey" FOREIGN KEY ("ptrSourceId") REFERENCES "DNSRecord"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "Delegation" (
+    "id" TEXT NOT NULL,
+    "domainId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "ttl" INTEGER NOT NULL DEFAULT 3600,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Delegation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DelegationNameServer" (
+    "id" TEXT NOT NULL,
+    "delegationId" TEXT NOT NULL,
+    "hostname" TEXT NOT NULL,
+    "ipv4" TEXT,
+    "ipv6" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "DelegationNameServer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Delegation_domainId_name_key" ON "Delegation"("domainId", "name");
+
+-- AddForeignKey
+ALTER TABLE "Delegation" ADD CONSTRAINT "Delegation_domainId_fkey" FOREIGN KEY ("domainId") REFERENCES "Domain"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DelegationNameServer" ADD CONSTRAINT "DelegationNameServer_delegationId_fkey" FOREIGN KEY ("delegationId") REFERENCES "Delegation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- TXT values used to be stored as zone file text. Values written as quoted
+-- strings ("v=DKIM1; " "p=...") become the logical string they spell, the
+-- way txtValue() unquotes input: \DDD is a byte, \X is X. Values that do not
+-- decode to UTF-8 are left alone.
+CREATE FUNCTION "unquote_txt_value"(quoted text) RETURNS text AS $$
+DECLARE
+  bytes bytea := ''::bytea;
+  inside boolean := false;
+  i integer := 1;
+  c text;
+BEGIN
+  WHILE i <= length(quoted) LOOP
+    c := substr(quoted, i, 1);
+    IF c = '"' THEN
+      inside := NOT inside;
+    ELSIF inside AND c = '\' AND substr(quoted, i + 1, 3) ~ '^[0-9]{3}$' THEN
+      bytes := bytes || set_byte('\x00'::bytea, 0, substr(quoted, i + 1, 3)::integer % 256);
+      i := i + 3;
+    ELSIF inside THEN
+      IF c = '\' AND i < length(quoted) THEN
+        i := i + 1;
+        c := substr(quoted, i, 1);
+      END IF;
+      bytes := bytes || convert_to(c, 'UTF8');
+    END IF;
+    i := i + 1;
+  END LOOP;
+  RETURN convert_from(bytes, 'UTF8');
+EXCEPTION WHEN OTHERS THEN
+  RETURN quoted;
+END;
+$$ LANGUAGE plpgsql;
+
+UPDATE "DNSRecord"
+SET "value" = "unquote_txt_value"(btrim("value", E' \t\r\n'))
+WHERE "type" = 'TXT'
+  AND btrim("value", E' \t\r\n') ~ '^"([^"\\]|\\.)*"([[:space:]]+"([^"\\]|\\.)*")*$';
+
+DROP FUNCTION "unquote_txt_value"(text);
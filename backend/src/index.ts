@@ -6,7 +6,11 @@ import domainRoutes from './routes/domains';
 import dnsRecordRoutes from './routes/records';
 import dnsLoadBalancerRoutes from './routes/dnsLoadBalancer';
 import usersRoutes from './routes/users';
+import syncRoutes from './routes/sync';
+import tsigKeyRoutes from './routes/tsigKeys';
+import viewRoutes from './routes/views';
 import { DNSLoadBalancerService } from './services/dnsLoadBalancer';
+import { getZoneReconciler } from './services/zoneReconciler';
 
 dotenv.config();
 
@@ -22,6 +26,9 @@ app.use('/domains', domainRoutes);
 app.use('/dns-records', dnsRecordRoutes);
 app.use('/dns-loadbalancer', dnsLoadBalancerRoutes);
 app.use('/users', usersRoutes);
+app.use('/sync', syncRoutes);
+app.use('/tsig-keys', tsigKeyRoutes);
+app.use('/views', viewRoutes);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -40,16 +47,21 @@ app.get('/health', (req, res) => {
 // DNS Load Balancer Service'i başlat
 const dnsLoadBalancerService = new DNSLoadBalancerService();
 
+// Zone dosyalarını ve sunucudaki zone'ları veritabanıyla karşılaştır
+const zoneReconciler = getZoneReconciler();
+
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully...');
   await dnsLoadBalancerService.stopHealthChecks();
+  zoneReconciler.stop();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   console.log('SIGINT received, shutting down gracefully...');
   await dnsLoadBalancerService.stopHealthChecks();
+  zoneReconciler.stop();
   process.exit(0);
 });
 
@@ -61,4 +73,6 @@ app.listen(PORT, () => {
   dnsLoadBalancerService.startHealthChecks()
     .then(() => console.log('DNS Load Balancer Service started successfully'))
     .catch(err => console.error('Failed to start DNS Load Balancer Service:', err));
+
+  zoneReconciler.start();
 });
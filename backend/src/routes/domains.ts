@@ -1,7 +1,22 @@
 import express from 'express';
 import { PrismaClient } from '@prisma/client';
 import { AuthRequest, authenticateJWT } from '../middlewares/auth';
-import { syncBind9 } from '../services/bind9';
+import { DEFAULT_VIEW, ZoneType, ZoneValidationError } from '../services/dnsBackend';
+import { queueSync, syncZonesOrRevert } from '../services/syncQueue';
+import { getSOAConfig, parseSOAInput, saveSOAProfile, deleteSOAProfile } from '../services/soaProfile';
+import { commitImport, previewImport } from '../services/zoneImport';
+import { EXPORT_FORMATS, ExportFormat, exportZone } from '../services/zoneExport';
+import { getDnsBackend, loadZones, publishedViews } from '../services/zoneSync';
+import { checkZoneDrift } from '../services/zoneReconciler';
+import { applyRecordChanges, changeConflicts, changedRecords, planRecordChanges, previewZone } from '../services/recordChanges';
+import { lintRecords } from '../services/zoneLint';
+import { normalizeZoneName } from '../services/ownerName';
+import { getDnssecStatus } from '../services/dnssec';
+import { SECONDARY_READ_ONLY, parseZoneTypeInput } from '../services/secondaryZone';
+import { AclKind, getZoneAcl, parseAclInput, saveZoneAcl } from '../services/zoneAcl';
+import { inView } from '../services/views';
+import { classlessParents, isReverseZone, refreshDomainPtrs, refreshPtrs, reverseZoneName } from '../services/reverseZone';
+import { createDelegation, delegationConflict, getDelegations, parseDelegationInput, saveDelegation } from '../services/delegation';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -18,15 +33,52 @@ router.get('/', authenticateJWT, async (req: AuthRequest, res) => {
   res.json(domains);
 });
 
-// Create domain
+// Get domain (admin or owner) with DNS records and current SOA serial
+router.get('/:id', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({
+    where: { id: req.params.id },
+    include: {
+      records: true
+    }
+  });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  res.json(domain);
+});
+
+// Create domain. Secondary zones take `zoneType: 'secondary'`, `primaries`
+// and an optional `transferKey`. Reverse zones can be given as a `network`
+// (192.0.2.0/24, 192.0.2.64/26, 2001:db8::/48) instead of a name; A/AAAA
+// records that keep a PTR and fall into a new reverse zone get it there.
 router.post('/', authenticateJWT, async (req: AuthRequest, res) => {
-  const { name } = req.body;
+  const { name, error } = req.body.network
+    ? reverseZoneName(String(req.body.network))
+    : normalizeZoneName(String(req.body.name ?? ''));
+  if (!name) return res.status(422).json({ error, fields: { [req.body.network ? 'network' : 'name']: error } });
+  const { data: zoneType, errors } = await parseZoneTypeInput(req.body, req.user);
+  if (!zoneType) return res.status(422).json({ error: 'Invalid zone settings', fields: errors });
+  const dns = getDnsBackend();
+  if (zoneType.zoneType === 'secondary' && !dns.transferStatus) {
+    return res.status(400).json({ error: `The ${dns.name} backend does not serve secondary zones` });
+  }
   const userId = req.user.isAdmin && req.body.userId ? req.body.userId : req.user.id;
   try {
-    const domain = await prisma.domain.create({ data: { name, userId } });
-    await syncBind9();
+    const domain = await prisma.domain.create({ data: { name, userId, ...zoneType } });
+    const reverse = isReverseZone(name);
+    const ptrZones = reverse ? await refreshPtrs(userId) : [];
+    await syncZonesOrRevert(
+      async () => {
+        await prisma.$transaction([
+          prisma.dNSRecord.deleteMany({ where: { domainId: domain.id } }),
+          prisma.domain.delete({ where: { id: domain.id } })
+        ]);
+        if (reverse) await refreshPtrs(userId);
+      },
+      { domainIds: [domain.id, ...ptrZones, ...await classlessParents(name)] }
+    );
     res.json(domain);
   } catch (e) {
+    if (e instanceof ZoneValidationError) return res.status(422).json({ error: e.message, details: e.output });
     res.status(400).json({ error: 'Domain already exists' });
   }
 });
@@ -36,29 +88,381 @@ router.put('/:id', authenticateJWT, async (req: AuthRequest, res) => {
   const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
   if (!domain) return res.sendStatus(404);
   if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
-  const { name } = req.body;
-  const updated = await prisma.domain.update({ where: { id: req.params.id }, data: { name } });
-  await syncBind9();
+  const { name, error } = normalizeZoneName(String(req.body.name ?? domain.name));
+  if (!name) return res.status(422).json({ error, fields: { name: error } });
+  const previous = { zoneType: domain.zoneType, primaries: domain.primaries, transferKey: domain.transferKey };
+  const { data: zoneType, errors } = await parseZoneTypeInput(req.body, req.user, { ...previous, zoneType: domain.zoneType as ZoneType });
+  if (!zoneType) return res.status(422).json({ error: 'Invalid zone settings', fields: errors });
+  const dns = getDnsBackend();
+  if (zoneType.zoneType === 'secondary' && !dns.transferStatus) {
+    return res.status(400).json({ error: `The ${dns.name} backend does not serve secondary zones` });
+  }
+  const updated = await prisma.domain.update({ where: { id: req.params.id }, data: { name, ...zoneType } });
+  const renamed = name !== domain.name;
+  // PTRs kept for the domain's records point at the new names
+  const ptrZones = renamed ? await refreshDomainPtrs(domain.id) : [];
+  try {
+    await syncZonesOrRevert(
+      async () => {
+        await prisma.domain.update({ where: { id: domain.id }, data: { name: domain.name, ...previous } });
+        if (ptrZones.length) await refreshDomainPtrs(domain.id);
+      },
+      // A secondary keeps its transferred copy unless it was renamed
+      { domainIds: [domain.id, ...ptrZones], removed: renamed || domain.zoneType === 'primary' ? [domain.name] : [] }
+    );
+  } catch (error) {
+    if (error instanceof ZoneValidationError) return res.status(422).json({ error: error.message, details: error.output });
+    throw error;
+  }
   res.json(updated);
 });
 
-// Delete domain (admin or owner)
+// Delete domain (admin or owner). The PTRs a reverse zone keeps for A/AAAA
+// records go with it, to a less specific reverse zone when there is one.
 router.delete('/:id', authenticateJWT, async (req: AuthRequest, res) => {
   const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
   if (!domain) return res.sendStatus(404);
   if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
-  await prisma.domain.delete({ where: { id: req.params.id } });
-  await syncBind9();
+  await prisma.$transaction([
+    prisma.dNSRecord.deleteMany({ where: { domainId: domain.id, ptrSourceId: { not: null } } }),
+    prisma.domain.delete({ where: { id: req.params.id } })
+  ]);
+  const ptrZones = isReverseZone(domain.name) ? await refreshPtrs(domain.userId) : [];
+  await queueSync({ domainIds: [...ptrZones, ...await classlessParents(domain.name)], removed: [domain.name] });
   res.sendStatus(204);
 });
 
-// List DNS records for a domain
+// List DNS records for a domain with the views they are scoped to
 router.get('/:id/records', authenticateJWT, async (req: AuthRequest, res) => {
   const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
   if (!domain) return res.sendStatus(404);
   if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
-  const records = await prisma.dNSRecord.findMany({ where: { domainId: req.params.id } });
+  const records = await prisma.dNSRecord.findMany({
+    where: { domainId: req.params.id },
+    include: { views: { select: { id: true, name: true } } }
+  });
+  res.json(records);
+});
+
+// Get effective SOA/NS profile for a domain (falls back to the global default)
+router.get('/:id/soa', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  const soa = await getSOAConfig(domain);
+  res.json(soa);
+});
+
+// Set a domain specific SOA/NS profile
+router.put('/:id/soa', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  if (domain.zoneType === 'secondary') return res.status(409).json({ error: 'The SOA of a secondary zone comes from its primaries' });
+  const { data, errors } = parseSOAInput(req.body, domain.name);
+  if (!data) return res.status(422).json({ error: 'Invalid SOA profile', fields: errors });
+  const { isDefault, ...previous } = await getSOAConfig(domain);
+  await saveSOAProfile(domain.id, data);
+  try {
+    await syncZonesOrRevert(
+      () => isDefault ? deleteSOAProfile(domain.id) : saveSOAProfile(domain.id, previous),
+      { domainIds: [domain.id] }
+    );
+  } catch (error) {
+    if (error instanceof ZoneValidationError) return res.status(422).json({ error: error.message, details: error.output });
+    throw error;
+  }
+  const soa = await getSOAConfig(domain);
+  res.json(soa);
+});
+
+// Remove the domain specific profile and go back to the global default
+router.delete('/:id/soa', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  await deleteSOAProfile(domain.id);
+  await queueSync({ domainIds: [domain.id] });
+  res.sendStatus(204);
+});
+
+// Import records from an RFC 1035 zone file. Returns a preview of the adds and
+// conflicts; with `commit: true` the records are created. Conflicting RRsets
+// are kept unless `conflicts` is 'replace'.
+router.post('/:id/import', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  if (domain.zoneType === 'secondary') return res.status(409).json({ error: SECONDARY_READ_ONLY });
+  const { zone, commit = false, conflicts = 'keep' } = req.body;
+  if (typeof zone !== 'string' || !zone.trim()) return res.status(400).json({ error: 'zone must contain the zone file text' });
+  if (conflicts !== 'keep' && conflicts !== 'replace') return res.status(400).json({ error: "conflicts must be 'keep' or 'replace'" });
+
+  const preview = await previewImport(domain, zone);
+  if (!commit) return res.json(preview);
+  if (preview.errors.length > 0) return res.status(400).json({ error: 'The zone file contains errors', ...preview });
+
+  try {
+    const { created, removed } = await commitImport(domain, preview, conflicts === 'replace');
+    res.json({ ...preview, created: created.length, removed: removed.length });
+  } catch (error) {
+    if (error instanceof ZoneValidationError) return res.status(422).json({ error: error.message, details: error.output });
+    throw error;
+  }
+});
+
+// Export a zone as published (bind) or as a structured dump (json, csv).
+// `view` exports the copy published in one view.
+router.get('/:id/export', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  if (domain.zoneType === 'secondary') return res.status(409).json({ error: 'Secondary zones are published by their primaries' });
+  const format = String(req.query.format || 'bind') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) return res.status(400).json({ error: `format must be one of ${EXPORT_FORMATS.join(', ')}` });
+
+  const view = req.query.view ? String(req.query.view) : null;
+  if (view && view !== DEFAULT_VIEW && !await prisma.view.findUnique({ where: { name: view } })) {
+    return res.status(400).json({ error: `Unknown view ${view}` });
+  }
+
+  const [zone] = await loadZones({ id: domain.id });
+  const published = view ? { ...zone, view, records: zone.records.filter(record => inView(record.views, view)) } : zone;
+  const { contentType, filename, body } = exportZone(published, format);
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(body);
+});
+
+// Report RRset rule violations among the domain's records, view by view
+router.get('/:id/lint', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  const [zone] = await loadZones({ id: domain.id });
+  res.json({ issues: lintRecords(domain.name, zone.records) });
+});
+
+// Dry run of record changes, e.g. { changes: [{ action: 'update', id,
+// record: { value: '192.0.2.10' } }] }. Returns the zone file diff per view,
+// the changes that cannot be made and the rules the resulting zone breaks;
+// nothing is saved. Invalid changes are left out of the diff.
+router.post('/:id/preview', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  if (domain.zoneType === 'secondary') return res.status(409).json({ error: SECONDARY_READ_ONLY });
+  if (!Array.isArray(req.body?.changes) || req.body.changes.length === 0) {
+    return res.status(400).json({ error: 'changes must be a non-empty list' });
+  }
+
+  const [zone] = await loadZones({ id: domain.id });
+  const { changes, errors } = await planRecordChanges(domain, req.body.changes);
+  const records = changedRecords(zone.records, changes);
+  errors.push(...changeConflicts(domain.name, records, changes));
+  errors.sort((a, b) => a.index - b.index);
+  const preview = await previewZone(zone, records, await publishedViews());
+  res.json({
+    valid: errors.length === 0 && preview.files.every(file => !file.error),
+    errors,
+    issues: lintRecords(domain.name, records),
+    ...preview
+  });
+});
+
+// Apply record changes together, e.g. the MX, SPF and DKIM records of a mail
+// provider move. Takes the same { changes } as /preview. Nothing is saved
+// unless every change is valid and the backend accepts the resulting zone,
+// which is published with one sync. Returns the domain's records afterwards.
+router.post('/:id/changesets', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  if (domain.zoneType === 'secondary') return res.status(409).json({ error: SECONDARY_READ_ONLY });
+  if (!Array.isArray(req.body?.changes) || req.body.changes.length === 0) {
+    return res.status(400).json({ error: 'changes must be a non-empty list' });
+  }
+
+  const [zone] = await loadZones({ id: domain.id });
+  const { changes, errors } = await planRecordChanges(domain, req.body.changes);
+  if (errors.length) return res.status(422).json({ error: 'Invalid changeset', errors });
+  const conflicts = changeConflicts(domain.name, changedRecords(zone.records, changes), changes);
+  if (conflicts.length) return res.status(409).json({ error: 'Changeset conflicts with existing records', errors: conflicts });
+
+  try {
+    await applyRecordChanges(domain, changes);
+  } catch (error) {
+    if (error instanceof ZoneValidationError) return res.status(422).json({ error: error.message, details: error.output });
+    throw error;
+  }
+  const records = await prisma.dNSRecord.findMany({
+    where: { domainId: domain.id },
+    include: { views: { select: { id: true, name: true } } }
+  });
   res.json(records);
 });
 
+// Compare the zone with its zone files and with an AXFR from the server
+router.get('/:id/drift', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  if (domain.zoneType === 'secondary') return res.status(409).json({ error: 'Secondary zones are transferred from their primaries' });
+  const [zone] = await loadZones({ id: domain.id });
+  res.json(await checkZoneDrift(zone, await publishedViews()));
+});
+
+// Transfer state of a secondary zone as reported by the server
+router.get('/:id/transfer', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  if (domain.zoneType !== 'secondary') return res.status(409).json({ error: 'Only secondary zones are transferred' });
+  const dns = getDnsBackend();
+  // With views every view transfers its own copy; the default view's is shown
+  const views = dns.supportsViews ? await prisma.view.count() : 0;
+  const status = dns.transferStatus
+    ? await dns.transferStatus(domain.name, views > 0 ? DEFAULT_VIEW : undefined)
+    : { serial: null, loadedAt: null, refreshAt: null, expiresAt: null, error: `The ${dns.name} backend does not serve secondary zones` };
+  res.json({ primaries: domain.primaries, transferKey: domain.transferKey, ...status });
+});
+
+// allow-transfer and also-notify entries of the zone
+router.get('/:id/acl', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  res.json(await getZoneAcl(domain.id));
+});
+
+// Replace the zone's transfer and notify ACLs. Keys are referred to by name
+// and must belong to the caller (admins may use any key).
+router.put('/:id/acl', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  const { data, errors } = await parseAclInput(req.body, req.user);
+  if (!data) return res.status(422).json({ error: 'Invalid zone ACL', fields: errors });
+
+  const previous = await prisma.zoneACLEntry.findMany({ where: { domainId: domain.id } });
+  await saveZoneAcl(domain.id, data);
+  try {
+    await syncZonesOrRevert(
+      () => saveZoneAcl(domain.id, previous.map(({ kind, address, keyId, position }) => ({ kind: kind as AclKind, address, keyId, position }))),
+      { domainIds: [] }
+    );
+  } catch (error) {
+    if (error instanceof ZoneValidationError) return res.status(422).json({ error: error.message, details: error.output });
+    throw error;
+  }
+  res.json(await getZoneAcl(domain.id));
+});
+
+// DNSSEC state: the keys the server signs with and the DS records to give to
+// the registrar
+router.get('/:id/dnssec', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  res.json(await getDnssecStatus(domain));
+});
+
+// Turn signing on or off. The server generates the keys on the next reload;
+// turning it off unsigns the zone gradually.
+router.put('/:id/dnssec', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  const { enabled } = req.body;
+  if (typeof enabled !== 'boolean') return res.status(400).json({ error: 'enabled must be true or false' });
+  const dns = getDnsBackend();
+  if (enabled && !dns.dnssecKeys) return res.status(400).json({ error: `The ${dns.name} backend does not sign zones` });
+
+  const updated = await prisma.domain.update({ where: { id: domain.id }, data: { dnssecEnabled: enabled } });
+  try {
+    await syncZonesOrRevert(
+      () => prisma.domain.update({ where: { id: domain.id }, data: { dnssecEnabled: domain.dnssecEnabled } }),
+      { domainIds: [domain.id] }
+    );
+  } catch (error) {
+    if (error instanceof ZoneValidationError) return res.status(422).json({ error: error.message, details: error.output });
+    throw error;
+  }
+  res.json(await getDnssecStatus(updated));
+});
+
+// Subdomains handed to other nameservers: NS records at the cut and glue for
+// the nameservers below it
+router.get('/:id/delegations', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  res.json(await getDelegations(domain.id));
+});
+
+// Delegate a name. Refused while records other than DS exist at or below it.
+router.post('/:id/delegations', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  if (domain.zoneType === 'secondary') return res.status(409).json({ error: SECONDARY_READ_ONLY });
+  const { data, errors } = parseDelegationInput(req.body, domain.name);
+  if (!data) return res.status(422).json({ error: 'Invalid delegation', fields: errors });
+
+  if (await prisma.delegation.findFirst({ where: { domainId: domain.id, name: data.name } })) {
+    return res.status(409).json({ error: `${data.name} is already delegated`, fields: { name: `${data.name} is already delegated` } });
+  }
+  const [zone] = await loadZones({ id: domain.id });
+  const conflict = delegationConflict(domain.name, zone.records, { id: 'new', ...data });
+  if (conflict) return res.status(409).json({ error: 'Delegation conflicts with existing records', fields: { name: conflict } });
+
+  const delegation = await createDelegation(domain.id, data);
+  try {
+    await syncZonesOrRevert(() => prisma.delegation.delete({ where: { id: delegation.id } }), { domainIds: [domain.id] });
+  } catch (error) {
+    if (error instanceof ZoneValidationError) return res.status(422).json({ error: error.message, details: error.output });
+    throw error;
+  }
+  res.status(201).json(delegation);
+});
+
+// Replace a delegation's name, TTL and nameservers
+router.put('/:id/delegations/:delegationId', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  if (domain.zoneType === 'secondary') return res.status(409).json({ error: SECONDARY_READ_ONLY });
+  const [previous] = (await getDelegations(domain.id)).filter(delegation => delegation.id === req.params.delegationId);
+  if (!previous) return res.sendStatus(404);
+  const { data, errors } = parseDelegationInput(req.body, domain.name);
+  if (!data) return res.status(422).json({ error: 'Invalid delegation', fields: errors });
+
+  if (await prisma.delegation.findFirst({ where: { domainId: domain.id, name: data.name, id: { not: previous.id } } })) {
+    return res.status(409).json({ error: `${data.name} is already delegated`, fields: { name: `${data.name} is already delegated` } });
+  }
+  const [zone] = await loadZones({ id: domain.id });
+  const conflict = delegationConflict(domain.name, zone.records, { id: previous.id, ...data });
+  if (conflict) return res.status(409).json({ error: 'Delegation conflicts with existing records', fields: { name: conflict } });
+
+  const delegation = await saveDelegation(previous.id, data);
+  try {
+    await syncZonesOrRevert(() => saveDelegation(previous.id, previous), { domainIds: [domain.id] });
+  } catch (error) {
+    if (error instanceof ZoneValidationError) return res.status(422).json({ error: error.message, details: error.output });
+    throw error;
+  }
+  res.json(delegation);
+});
+
+router.delete('/:id/delegations/:delegationId', authenticateJWT, async (req: AuthRequest, res) => {
+  const domain = await prisma.domain.findUnique({ where: { id: req.params.id } });
+  if (!domain) return res.sendStatus(404);
+  if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
+  const delegation = await prisma.delegation.findFirst({ where: { id: req.params.delegationId, domainId: domain.id } });
+  if (!delegation) return res.sendStatus(404);
+  await prisma.delegation.delete({ where: { id: delegation.id } });
+  await queueSync({ domainIds: [domain.id] });
+  res.sendStatus(204);
+});
+
 export default router;
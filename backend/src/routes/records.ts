@@ -1,40 +1,136 @@
 import express from 'express';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { AuthRequest, authenticateJWT } from '../middlewares/auth';
-import { syncBind9 } from '../services/bind9';
+import { ZoneValidationError } from '../services/dnsBackend';
+import { syncZonesOrRevert } from '../services/syncQueue';
+import { validateRecord, validateRecordUpdate } from '../services/recordValidation';
+import { recordConflicts } from '../services/zoneLint';
+import { SECONDARY_READ_ONLY } from '../services/secondaryZone';
+import { resolveViews } from '../services/views';
+import { AUTO_PTR_TYPES, MANAGED_PTR, ptrPlacement, refreshPtr } from '../services/reverseZone';
+import { loadZones } from '../services/zoneSync';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
-// Add DNS record
+const UNKNOWN_VIEW = { error: 'Invalid DNS record', fields: { viewIds: 'Unknown view' } };
+
+// The domain's records with the names of the views they are scoped to, the
+// NS and glue records of its delegations and, in a /24 reverse zone, the
+// CNAME and NS records delegating its classless children
+async function zoneRecords(domain: { id: string }) {
+  const [zone] = await loadZones({ id: domain.id });
+  return zone.records;
+}
+
+// Add DNS record, optionally scoped to views with `viewIds`. A/AAAA records
+// with `autoPtr: true` get a PTR in the reverse zone covering the address.
 router.post('/:domainId', authenticateJWT, async (req: AuthRequest, res) => {
-  const { type, name, value, ttl } = req.body;
   const domain = await prisma.domain.findUnique({ where: { id: req.params.domainId } });
   if (!domain) return res.sendStatus(404);
   if (!req.user.isAdmin && domain.userId !== req.user.id) return res.sendStatus(403);
-  const record = await prisma.dNSRecord.create({ data: { domainId: req.params.domainId, type, name, value, ttl } });
-  await syncBind9();
+  if (domain.zoneType === 'secondary') return res.status(409).json({ error: SECONDARY_READ_ONLY });
+  const { data, errors } = validateRecord(req.body, domain.name);
+  if (!data) return res.status(422).json({ error: 'Invalid DNS record', fields: errors });
+  const views = await resolveViews(req.body.viewIds);
+  if (!views) return res.status(422).json(UNKNOWN_VIEW);
+  const autoPtr = AUTO_PTR_TYPES.includes(data.type) && req.body.autoPtr === true;
+  if (autoPtr) {
+    const { error } = await ptrPlacement(data, domain);
+    if (error) return res.status(422).json({ error: 'Invalid DNS record', fields: { autoPtr: error } });
+  }
+  const others = await zoneRecords(domain);
+  const conflicts = recordConflicts(domain.name, data, others, '', views.map(view => view.name));
+  if (Object.keys(conflicts).length) return res.status(409).json({ error: 'DNS record conflicts with existing records', fields: conflicts });
+  const record = await prisma.dNSRecord.create({
+    data: { ...data, autoPtr, domainId: req.params.domainId, views: { connect: views.map(({ id }) => ({ id })) } },
+    include: { views: { select: { id: true, name: true } } }
+  });
+  const ptrZones = await refreshPtr(record.id);
+  try {
+    await syncZonesOrRevert(() => prisma.dNSRecord.delete({ where: { id: record.id } }), { domainIds: [domain.id, ...ptrZones] });
+  } catch (error) {
+    if (error instanceof ZoneValidationError) return res.status(422).json({ error: error.message, details: error.output });
+    throw error;
+  }
   res.json(record);
 });
 
-// Update DNS record
+// Update DNS record; `viewIds` replaces its views and `autoPtr` turns the
+// kept PTR on or off when sent
 router.put('/:id', authenticateJWT, async (req: AuthRequest, res) => {
-  const record = await prisma.dNSRecord.findUnique({ where: { id: req.params.id }, include: { domain: true } });
+  const record = await prisma.dNSRecord.findUnique({
+    where: { id: req.params.id },
+    include: { domain: true, views: { select: { id: true, name: true } } }
+  });
   if (!record) return res.sendStatus(404);
   if (!req.user.isAdmin && record.domain.userId !== req.user.id) return res.sendStatus(403);
-  const { type, name, value, ttl } = req.body;
-  const updated = await prisma.dNSRecord.update({ where: { id: req.params.id }, data: { type, name, value, ttl } });
-  await syncBind9();
+  if (record.domain.zoneType === 'secondary') return res.status(409).json({ error: SECONDARY_READ_ONLY });
+  if (record.ptrSourceId) return res.status(409).json({ error: MANAGED_PTR });
+  // Fields left out of the body keep their current value
+  const { domain, views: currentViews, autoPtr: currentAutoPtr, ...current } = record;
+  const { data, errors } = validateRecordUpdate(current, req.body, domain.name);
+  if (!data) return res.status(422).json({ error: 'Invalid DNS record', fields: errors });
+  const views = req.body?.viewIds === undefined ? currentViews : await resolveViews(req.body.viewIds);
+  if (!views) return res.status(422).json(UNKNOWN_VIEW);
+  const autoPtr = AUTO_PTR_TYPES.includes(data.type) && (req.body?.autoPtr === undefined ? currentAutoPtr : req.body.autoPtr === true);
+  if (autoPtr) {
+    const { error } = await ptrPlacement({ ...data, id: record.id }, domain);
+    if (error) return res.status(422).json({ error: 'Invalid DNS record', fields: { autoPtr: error } });
+  }
+  const others = await zoneRecords(domain);
+  const conflicts = recordConflicts(domain.name, data, others, record.id, views.map(view => view.name));
+  if (Object.keys(conflicts).length) return res.status(409).json({ error: 'DNS record conflicts with existing records', fields: conflicts });
+  const updated = await prisma.dNSRecord.update({
+    where: { id: req.params.id },
+    data: { ...data, autoPtr, rdata: data.rdata ?? Prisma.DbNull, views: { set: views.map(({ id }) => ({ id })) } },
+    include: { views: { select: { id: true, name: true } } }
+  });
+  const ptrZones = await refreshPtr(record.id);
+  try {
+    await syncZonesOrRevert(async () => {
+      await prisma.dNSRecord.update({
+        where: { id: record.id },
+        data: {
+          type: record.type, name: record.name, value: record.value, ttl: record.ttl,
+          priority: record.priority, weight: record.weight, port: record.port, rdata: record.rdata ?? Prisma.DbNull,
+          autoPtr: record.autoPtr, views: { set: currentViews.map(({ id }) => ({ id })) }
+        }
+      });
+      await refreshPtr(record.id);
+    }, { domainIds: [record.domainId, ...ptrZones] });
+  } catch (error) {
+    if (error instanceof ZoneValidationError) return res.status(422).json({ error: error.message, details: error.output });
+    throw error;
+  }
   res.json(updated);
 });
 
 // Delete DNS record
 router.delete('/:id', authenticateJWT, async (req: AuthRequest, res) => {
-  const record = await prisma.dNSRecord.findUnique({ where: { id: req.params.id }, include: { domain: true } });
+  const record = await prisma.dNSRecord.findUnique({
+    where: { id: req.params.id },
+    include: { domain: true, views: { select: { id: true } }, ptrRecord: { select: { domainId: true } } }
+  });
   if (!record) return res.sendStatus(404);
   if (!req.user.isAdmin && record.domain.userId !== req.user.id) return res.sendStatus(403);
+  if (record.domain.zoneType === 'secondary') return res.status(409).json({ error: SECONDARY_READ_ONLY });
+  if (record.ptrSourceId) return res.status(409).json({ error: MANAGED_PTR });
+  // The kept PTR is deleted with the record
   await prisma.dNSRecord.delete({ where: { id: req.params.id } });
-  await syncBind9();
+  try {
+    const { domain, views, ptrRecord, ...data } = record;
+    await syncZonesOrRevert(
+      async () => {
+        await prisma.dNSRecord.create({ data: { ...data, rdata: data.rdata ?? Prisma.DbNull, views: { connect: views } } });
+        await refreshPtr(record.id);
+      },
+      { domainIds: [domain.id, ...(ptrRecord ? [ptrRecord.domainId] : [])] }
+    );
+  } catch (error) {
+    if (error instanceof ZoneValidationError) return res.status(422).json({ error: error.message, details: error.output });
+    throw error;
+  }
   res.sendStatus(204);
 });
 
@@ -0,0 +1,44 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { AuthRequest, authenticateJWT } from '../middlewares/auth';
+import { SyncJob, getSyncQueue } from '../services/syncQueue';
+import { getZoneReconciler } from '../services/zoneReconciler';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Admins see every job, users only jobs that touched one of their domains
+async function visibleJobs(req: AuthRequest, jobs: SyncJob[]) {
+  if (req.user.isAdmin) return jobs;
+  const domains = await prisma.domain.findMany({ where: { userId: req.user.id }, select: { id: true } });
+  const ids = new Set(domains.map(domain => domain.id));
+  return jobs.filter(job => job.domainIds?.some(id => ids.has(id)));
+}
+
+// List queued, running and recent sync jobs
+router.get('/jobs', authenticateJWT, async (req: AuthRequest, res) => {
+  const jobs = await visibleJobs(req, getSyncQueue().jobs());
+  res.json(jobs);
+});
+
+// Get a single sync job
+router.get('/jobs/:id', authenticateJWT, async (req: AuthRequest, res) => {
+  const job = getSyncQueue().job(req.params.id);
+  if (!job) return res.sendStatus(404);
+  const [visible] = await visibleJobs(req, [job]);
+  if (!visible) return res.sendStatus(403);
+  res.json(job);
+});
+
+// Last scheduled drift report, limited to the caller's domains for users.
+// Runs a check now when none has run yet.
+router.get('/drift', authenticateJWT, async (req: AuthRequest, res) => {
+  const reconciler = getZoneReconciler();
+  const report = reconciler.latestReport() ?? await reconciler.report();
+  if (req.user.isAdmin) return res.json(report);
+  const domains = await prisma.domain.findMany({ where: { userId: req.user.id }, select: { id: true } });
+  const ids = new Set(domains.map(domain => domain.id));
+  res.json({ ...report, zones: report.zones.filter(zone => ids.has(zone.domainId)) });
+});
+
+export default router;
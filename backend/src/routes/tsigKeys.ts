@@ -0,0 +1,102 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { AuthRequest, authenticateJWT } from '../middlewares/auth';
+import { ZoneValidationError } from '../services/dnsBackend';
+import { syncZonesOrRevert } from '../services/syncQueue';
+import { generateSecret, parseTsigKeyInput, publicTsigKey } from '../services/tsigKeys';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Keys are written into named.conf.local, so every change is a server wide
+// sync without zone content changes
+const SERVER_ONLY = { domainIds: [] };
+
+// List TSIG keys (admin: all, user: own) without their secrets
+router.get('/', authenticateJWT, async (req: AuthRequest, res) => {
+  const where = req.user.isAdmin ? {} : { userId: req.user.id };
+  const keys = await prisma.tSIGKey.findMany({
+    where,
+    include: { _count: { select: { aclEntries: true } } },
+    orderBy: { name: 'asc' }
+  });
+  // Secondary zones refer to their transfer key by name
+  const secondaries = await prisma.domain.groupBy({
+    by: ['transferKey'],
+    where: { transferKey: { in: keys.map(key => key.name) } },
+    _count: true
+  });
+  res.json(keys.map(({ _count, ...key }) => ({
+    ...publicTsigKey(key),
+    usedBy: _count.aclEntries + (secondaries.find(group => group.transferKey === key.name)?._count ?? 0)
+  })));
+});
+
+// Create a key. The response is the only time the secret is returned.
+router.post('/', authenticateJWT, async (req: AuthRequest, res) => {
+  const { data, errors } = parseTsigKeyInput(req.body);
+  if (!data) return res.status(422).json({ error: 'Invalid TSIG key', fields: errors });
+  if (await prisma.tSIGKey.findUnique({ where: { name: data.name } })) {
+    return res.status(409).json({ error: 'A key with this name already exists', fields: { name: 'A key with this name already exists' } });
+  }
+
+  const key = await prisma.tSIGKey.create({ data: { ...data, userId: req.user.id } });
+  try {
+    await syncZonesOrRevert(() => prisma.tSIGKey.delete({ where: { id: key.id } }), SERVER_ONLY);
+  } catch (error) {
+    if (error instanceof ZoneValidationError) return res.status(422).json({ error: error.message, details: error.output });
+    throw error;
+  }
+  res.json(key);
+});
+
+// Replace a key's secret. Servers sharing the key need the new secret, which
+// is returned only in this response.
+router.post('/:id/rotate', authenticateJWT, async (req: AuthRequest, res) => {
+  const key = await prisma.tSIGKey.findUnique({ where: { id: req.params.id } });
+  if (!key) return res.sendStatus(404);
+  if (!req.user.isAdmin && key.userId !== req.user.id) return res.sendStatus(403);
+
+  const rotated = await prisma.tSIGKey.update({
+    where: { id: key.id },
+    data: { secret: generateSecret(key.algorithm), rotatedAt: new Date() }
+  });
+  try {
+    await syncZonesOrRevert(
+      () => prisma.tSIGKey.update({ where: { id: key.id }, data: { secret: key.secret, rotatedAt: key.rotatedAt } }),
+      SERVER_ONLY
+    );
+  } catch (error) {
+    if (error instanceof ZoneValidationError) return res.status(422).json({ error: error.message, details: error.output });
+    throw error;
+  }
+  res.json(rotated);
+});
+
+// Delete a key that no zone refers to any more
+router.delete('/:id', authenticateJWT, async (req: AuthRequest, res) => {
+  const key = await prisma.tSIGKey.findUnique({ where: { id: req.params.id } });
+  if (!key) return res.sendStatus(404);
+  if (!req.user.isAdmin && key.userId !== req.user.id) return res.sendStatus(403);
+
+  const [aclEntries, secondaries, views] = await Promise.all([
+    prisma.zoneACLEntry.count({ where: { keyId: key.id } }),
+    prisma.domain.count({ where: { transferKey: key.name } }),
+    prisma.view.count({ where: { OR: [{ matchClients: { has: `key "${key.name}"` } }, { matchClients: { has: `!key "${key.name}"` } }] } })
+  ]);
+  if (aclEntries > 0 || secondaries > 0) {
+    return res.status(409).json({ error: 'The key is still used by zone transfer settings' });
+  }
+  if (views > 0) return res.status(409).json({ error: 'The key is still used to match view clients' });
+
+  await prisma.tSIGKey.delete({ where: { id: key.id } });
+  try {
+    await syncZonesOrRevert(() => prisma.tSIGKey.create({ data: key }), SERVER_ONLY);
+  } catch (error) {
+    if (error instanceof ZoneValidationError) return res.status(422).json({ error: error.message, details: error.output });
+    throw error;
+  }
+  res.sendStatus(204);
+});
+
+export default router;
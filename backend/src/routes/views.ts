@@ -0,0 +1,106 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { AuthRequest, authenticateJWT } from '../middlewares/auth';
+import { ZoneValidationError } from '../services/dnsBackend';
+import { syncZonesOrRevert } from '../services/syncQueue';
+import { getDnsBackend } from '../services/zoneSync';
+import { parseViewInput } from '../services/views';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Views change every zone's published copies, so each change syncs all zones
+const ALL_ZONES = {};
+
+function unsupported() {
+  const dns = getDnsBackend();
+  return dns.supportsViews ? null : `The ${dns.name} backend does not support views`;
+}
+
+// List views in match order, with how many records are scoped to each
+router.get('/', authenticateJWT, async (req: AuthRequest, res) => {
+  const views = await prisma.view.findMany({
+    include: { _count: { select: { records: true } } },
+    orderBy: [{ position: 'asc' }, { name: 'asc' }]
+  });
+  res.json(views.map(({ _count, ...view }) => ({ ...view, records: _count.records })));
+});
+
+// Create a view (admin only)
+router.post('/', authenticateJWT, async (req: AuthRequest, res) => {
+  if (!req.user.isAdmin) return res.status(403).json({ error: 'Admin access required' });
+  const error = unsupported();
+  if (error) return res.status(400).json({ error });
+
+  const { data, errors } = await parseViewInput(req.body);
+  if (!data) return res.status(422).json({ error: 'Invalid view', fields: errors });
+  if (await prisma.view.findUnique({ where: { name: data.name } })) {
+    return res.status(409).json({ error: 'A view with this name already exists', fields: { name: 'A view with this name already exists' } });
+  }
+
+  const view = await prisma.view.create({ data });
+  try {
+    await syncZonesOrRevert(() => prisma.view.delete({ where: { id: view.id } }), ALL_ZONES);
+  } catch (error) {
+    if (error instanceof ZoneValidationError) return res.status(422).json({ error: error.message, details: error.output });
+    throw error;
+  }
+  res.json(view);
+});
+
+// Rename a view, change its client match list or its position (admin only)
+router.put('/:id', authenticateJWT, async (req: AuthRequest, res) => {
+  if (!req.user.isAdmin) return res.status(403).json({ error: 'Admin access required' });
+  const view = await prisma.view.findUnique({ where: { id: req.params.id } });
+  if (!view) return res.sendStatus(404);
+
+  const { data, errors } = await parseViewInput(req.body);
+  if (!data) return res.status(422).json({ error: 'Invalid view', fields: errors });
+  if (data.name !== view.name && await prisma.view.findUnique({ where: { name: data.name } })) {
+    return res.status(409).json({ error: 'A view with this name already exists', fields: { name: 'A view with this name already exists' } });
+  }
+
+  const updated = await prisma.view.update({ where: { id: view.id }, data });
+  try {
+    await syncZonesOrRevert(
+      () => prisma.view.update({
+        where: { id: view.id },
+        data: { name: view.name, matchClients: view.matchClients, position: view.position }
+      }),
+      ALL_ZONES
+    );
+  } catch (error) {
+    if (error instanceof ZoneValidationError) return res.status(422).json({ error: error.message, details: error.output });
+    throw error;
+  }
+  // The zones are published under the new name now
+  if (updated.name !== view.name) await getDnsBackend().removeView?.(view.name);
+  res.json(updated);
+});
+
+// Delete a view no record is scoped to any more; dropping the scope instead
+// would publish the records in every view (admin only)
+router.delete('/:id', authenticateJWT, async (req: AuthRequest, res) => {
+  if (!req.user.isAdmin) return res.status(403).json({ error: 'Admin access required' });
+  const view = await prisma.view.findUnique({
+    where: { id: req.params.id },
+    include: { _count: { select: { records: true } } }
+  });
+  if (!view) return res.sendStatus(404);
+  if (view._count.records > 0) {
+    return res.status(409).json({ error: 'Records are still scoped to this view' });
+  }
+
+  const { _count, ...data } = view;
+  await prisma.view.delete({ where: { id: view.id } });
+  try {
+    await syncZonesOrRevert(() => prisma.view.create({ data }), ALL_ZONES);
+  } catch (error) {
+    if (error instanceof ZoneValidationError) return res.status(422).json({ error: error.message, details: error.output });
+    throw error;
+  }
+  await getDnsBackend().removeView?.(view.name);
+  res.sendStatus(204);
+});
+
+export default router;
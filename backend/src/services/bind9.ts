@@ -1,232 +1,387 @@
-import { PrismaClient } from '@prisma/client';
 import { exec } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 import { promisify } from 'util';
+import { DEFAULT_VIEW, DnsBackend, DriftCheck, ManagedZone, ServerConfig, ServerView, TransferStatus, TsigKey, ZoneSnapshot, ZoneValidationError } from './dnsBackend';
+import { readBindKeys } from './bindKeys';
+import { RRSet, diffRRSets, parseRRSets, zoneRRSets } from './rrset';
+import { renderZoneFile } from './zoneRenderer';
 
 const execAsync = promisify(exec);
-const prisma = new PrismaClient();
-
-const ZONE_DIR = '/etc/bind/zones';
-const RNDC_PATH = '/usr/sbin/rndc';
-const NAMED_CONF_LOCAL = '/etc/bind/named.conf.local';
-
-interface DNSLoadBalancer {
-  id: string;
-  name: string;
-  isActive: boolean;
-  algorithm: string;
-  domain: {
-    name: string;
-  };
-  servers: Array<{
-    id: string;
-    name: string;
-    ip: string;
-    port: number;
-    weight: number;
-    isActive: boolean;
-    health?: {
-      status: string;
-      responseTime: number;
-    };
-  }>;
+
+export interface Bind9Config {
+  zoneDir: string;
+  rndcPath: string;
+  namedConfLocal: string;
+  checkzonePath: string;
+  checkconfPath: string;
+  // dig and the server queried for AXFRs when looking for drift
+  digPath: string;
+  transferServer: string;
+  transferPort: number;
+  // Where named keeps the DNSSEC keys of signed zones
+  keyDir: string;
+  // Algorithm and key lifetimes of the dnssec-policy signed zones use
+  dnssecAlgorithm: string;
+  kskLifetime: string;
+  zskLifetime: string;
 }
 
-interface Domain {
-  id: string;
-  name: string;
-  records: Array<{
-    id: string;
-    name: string;
-    type: string;
-    value: string;
-    ttl: number;
-    priority?: number | null;
-    weight?: number | null;
-    port?: number | null;
-    isLoadBalanced?: boolean;
-    loadBalancerId?: string | null;
-  }>;
+// Name of the dnssec-policy written to named.conf.local
+const DNSSEC_POLICY = 'dns-manager';
+
+// Zone files and transfers can be large
+const MAX_BUFFER = 64 * 1024 * 1024;
+
+function indent(text: string) {
+  return text.replace(/^(?=.)/gm, '    ');
 }
 
-export async function syncBind9() {
-  try {
-    console.log('Syncing Bind9...');
-    
-    // Get all domains and their DNS records
-    const domains = await prisma.domain.findMany({
-      include: {
-        records: true
-      }
-    });
-
-    // Get all DNS load balancers and their servers
-    const loadBalancers = await prisma.dNSLoadBalancer.findMany({
-      include: {
-        domain: true,
-        servers: {
-          include: {
-            health: true
-          }
-        }
-      }
-    });
+// Read lazily so values loaded by dotenv at startup are picked up
+export function bind9ConfigFromEnv(): Bind9Config {
+  return {
+    zoneDir: process.env.BIND9_ZONE_DIR || '/etc/bind/zones',
+    rndcPath: process.env.BIND9_RNDC_PATH || '/usr/sbin/rndc',
+    namedConfLocal: process.env.BIND9_NAMED_CONF_LOCAL || '/etc/bind/named.conf.local',
+    checkzonePath: process.env.BIND9_CHECKZONE_PATH || 'named-checkzone',
+    checkconfPath: process.env.BIND9_CHECKCONF_PATH || 'named-checkconf',
+    digPath: process.env.BIND9_DIG_PATH || 'dig',
+    transferServer: process.env.BIND9_TRANSFER_SERVER || '127.0.0.1',
+    transferPort: Number(process.env.BIND9_TRANSFER_PORT || 53),
+    keyDir: process.env.BIND9_KEY_DIR || '/var/cache/bind/keys',
+    dnssecAlgorithm: process.env.DNSSEC_ALGORITHM || 'ecdsap256sha256',
+    kskLifetime: process.env.DNSSEC_KSK_LIFETIME || 'unlimited',
+    zskLifetime: process.env.DNSSEC_ZSK_LIFETIME || 'P90D'
+  };
+}
 
-    // Create zone files for each domain
-    for (const domain of domains) {
-      await createZoneFile(domain as Domain, loadBalancers as DNSLoadBalancer[]);
-    }
+// A rendered file waiting in its staging location next to the live one
+interface StagedFile {
+  target: string;
+  staging: string;
+  backup: string;
+}
 
-    // Update named.conf.local
-    await updateNamedConfLocal(domains as Domain[]);
+// A checked zone file waiting for reload() to activate it
+interface StagedZone extends StagedFile {
+  zoneName: string;
+  serial: number;
+}
 
-    // Reload BIND9
-    await reloadBind9();
-    
-    console.log('Bind9 sync completed successfully');
+export async function readFileIfExists(filePath: string) {
+  try {
+    return await fs.readFile(filePath, 'utf8');
   } catch (error) {
-    console.error('Error syncing Bind9:', error);
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
     throw error;
   }
 }
 
-async function createZoneFile(domain: Domain, loadBalancers: DNSLoadBalancer[]) {
-  const zoneFileName = `${domain.name}.zone`;
-  const zoneFilePath = `${ZONE_DIR}/${zoneFileName}`;
-  
-  let zoneContent = `$TTL 86400
-@       IN      SOA     ${domain.name}. admin.${domain.name}. (
-                        2023080701      ; Serial
-                        3600            ; Refresh
-                        1800            ; Retry
-                        1209600         ; Expire
-                        86400 )         ; Negative Cache TTL
-
-@       IN      NS      ns1.${domain.name}.
-@       IN      A       127.0.0.1
-ns1     IN      A       127.0.0.1
+// Runs a BIND checker. Returns its output on failure, null when it passes.
+// A missing checker binary only logs a warning so hosts without the BIND
+// utilities can still sync.
+async function runChecker(command: string) {
+  try {
+    await execAsync(command);
+    return null;
+  } catch (error) {
+    const { code, stdout, stderr, message } = error as { code?: number; stdout?: string; stderr?: string; message: string };
+    if (code === 127) {
+      console.warn(`Validation skipped, checker not available: ${command}`);
+      return null;
+    }
+    return `${stdout || ''}${stderr || ''}` || message;
+  }
+}
+
+// BIND 9 driver: zone files in the zone directory, the zone list in
+// named.conf.local and rndc to make changes live. Every file is written to a
+// staging path, validated with named-checkzone / named-checkconf and then
+// renamed into place, keeping the previous live copy as the last known-good
+// version. Zone files are only activated by reload(), once every zone of the
+// sync has passed its check, so a zone that fails leaves all of them as they
+// were. With views, zones are listed in a `view` block per view and each
+// view gets its own copy of the zone file.
+export class Bind9Backend implements DnsBackend {
+  readonly name: string = 'bind';
+  readonly supportsViews: boolean = true;
 
-`;
+  // Files activated since the last successful reload
+  private pending: StagedFile[] = [];
+  // Zone files checked by applyZone() and not activated yet
+  private staged: StagedZone[] = [];
+
+  constructor(protected config: Bind9Config = bind9ConfigFromEnv()) {}
+
+  renderZone(zone: ZoneSnapshot) {
+    return renderZoneFile(zone);
+  }
 
-  // Add DNS records
-  for (const record of domain.records) {
-    // Load balanced kayıtları atla, bunlar ayrıca işlenecek
-    if (record.isLoadBalanced) continue;
-    
-    const ttl = record.ttl || 300;
-    const priority = record.priority ? ` ${record.priority}` : '';
-    const weight = record.weight ? ` ${record.weight}` : '';
-    const port = record.port ? ` ${record.port}` : '';
-    
-    // Handle record name - extract subdomain from full domain name
-    let recordName = record.name;
-    
-    // If the record name is the same as the domain, use @
-    if (recordName === domain.name) {
-      recordName = '@';
+  // Checks the zone file and leaves it staged for reload(). When a zone fails
+  // its check everything staged so far is dropped.
+  async applyZone(zone: ZoneSnapshot) {
+    try {
+      return await this.prepareZone(zone);
+    } catch (error) {
+      await this.discardStaged(this.staged);
+      throw error;
     }
-    // If the record name ends with the domain name, remove it
-    else if (recordName.endsWith(`.${domain.name}`)) {
-      recordName = recordName.replace(`.${domain.name}`, '');
+  }
+
+  // Also removes the copies published for views
+  async removeZone(zoneName: string) {
+    const views = await fs.readdir(`${this.config.zoneDir}/views`).catch(() => [] as string[]);
+    for (const filePath of [this.zoneFilePath(zoneName), ...views.map(view => this.zoneFilePath(zoneName, view))]) {
+      await fs.rm(filePath, { force: true });
+      await fs.rm(`${filePath}.last-good`, { force: true });
     }
-    // If the record name is a full domain that contains the domain name
-    else if (recordName.includes(`.${domain.name}`)) {
-      recordName = recordName.replace(`.${domain.name}`, '');
+    console.log(`Removed zone file for ${zoneName}`);
+  }
+
+  // named.conf.local no longer lists the view after the sync, so only its
+  // zone files are left
+  async removeView(viewName: string) {
+    await fs.rm(`${this.config.zoneDir}/views/${viewName}`, { recursive: true, force: true });
+    console.log(`Removed zone files of view ${viewName}`);
+  }
+
+  // Only the changed zones are reloaded, in every view; `rndc reconfig` is
+  // needed just when named.conf.local changed (zones added or removed, keys,
+  // ACLs, views).
+  async reload(server: ServerConfig, changed: string[]) {
+    // Files staged by a sync that failed before reaching reload are dropped
+    const staged = this.staged;
+    this.staged = [];
+    await this.discardStaged(staged.filter(file => !changed.includes(file.zoneName)));
+    const zoneFiles = staged.filter(file => changed.includes(file.zoneName));
+
+    let config: StagedFile | null;
+    try {
+      config = await this.stageNamedConfLocal(server);
+    } catch (error) {
+      await this.discardStaged(zoneFiles);
+      throw error;
     }
-    // If the record name is a separate domain (like ece.com), skip it
-    else if (recordName.includes('.') && !recordName.endsWith(domain.name)) {
-      console.log(`Skipping record ${recordName} as it's not a subdomain of ${domain.name}`);
-      continue;
+    for (const file of zoneFiles) {
+      await this.activate(file);
+      console.log(`Updated zone file: ${file.target} (serial ${file.serial})`);
     }
-    
-    // Handle MX records - they need a priority number
-    if (record.type === 'MX') {
-      const mxPriority = record.priority || 10;
-      zoneContent += `${recordName}       IN      ${record.type}     ${mxPriority} ${record.value}\n`;
-    } else if (record.type === 'CNAME') {
-      // For CNAME records, ensure the target doesn't have the domain appended
-      let target = record.value;
-      
-      // If the target already ends with the domain name, remove it
-      if (target.endsWith(`.${domain.name}`)) {
-        target = target.replace(`.${domain.name}`, '');
-      }
-      
-      // If the target doesn't end with a dot, add the domain
-      if (!target.endsWith('.')) {
-        target = target + '.' + domain.name + '.';
-      }
-      
-      zoneContent += `${recordName}       IN      ${record.type}     ${target}\n`;
-    } else {
-      zoneContent += `${recordName}       IN      ${record.type}${priority}${weight}${port}     ${record.value}\n`;
+    if (config) {
+      await this.activate(config);
+      console.log('Updated named.conf.local');
+    }
+    const views = server.views.length > 0 ? [...server.views.map(view => view.name), DEFAULT_VIEW] : [null];
+
+    try {
+      if (config) await this.rndc('reconfig');
+      await this.reloadZones(changed, views);
+      this.pending = [];
+    } catch (error) {
+      console.error('Reload failed, restoring last known-good files');
+      await this.restoreLastKnownGood();
+      await this.rndcReload().catch(reloadError => console.error('Error reloading restored files:', reloadError));
+      throw error;
     }
   }
 
-  // Add DNS load balancer records
-  for (const lb of loadBalancers) {
-    if (lb.isActive && lb.domain.name === domain.name && lb.servers.length > 0) {
-      const healthyServers = lb.servers.filter(server => 
-        server.isActive && server.health && server.health.status === 'healthy'
-      );
-      
-      if (healthyServers.length === 0) continue;
-
-      // Load balancing algoritmasına göre DNS kayıtları oluştur
-      switch (lb.algorithm) {
-        case 'round-robin':
-          // Her sağlıklı sunucu için A kaydı
-          for (const server of healthyServers) {
-            zoneContent += `${lb.name}       IN      A       ${server.ip}\n`;
-          }
-          break;
-
-        case 'weighted':
-          // Weight'e göre birden fazla kayıt
-          for (const server of healthyServers) {
-            const recordCount = Math.floor(server.weight / 10);
-            for (let i = 0; i < recordCount; i++) {
-              zoneContent += `${lb.name}       IN      A       ${server.ip}\n`;
-            }
-          }
-          break;
-
-        case 'health-based':
-          // En sağlıklı sunucular için kayıt
-          const sortedServers = healthyServers.sort((a, b) => {
-            const aHealth = a.health || { responseTime: 0 };
-            const bHealth = b.health || { responseTime: 0 };
-            return (aHealth.responseTime || 0) - (bHealth.responseTime || 0);
-          });
-          
-          const topServers = sortedServers.slice(0, 3);
-          for (const server of topServers) {
-            zoneContent += `${lb.name}       IN      A       ${server.ip}\n`;
-          }
-          break;
-      }
+  // The default view uses the same file as a server without views, so turning
+  // views on or off does not move it
+  zoneFilePath(zoneName: string, view?: string | null) {
+    if (view && view !== DEFAULT_VIEW) return `${this.config.zoneDir}/views/${view}/${zoneName}.zone`;
+    return `${this.config.zoneDir}/${zoneName}.zone`;
+  }
 
-      // SRV kayıtları (eğer birden fazla sunucu varsa)
-      if (healthyServers.length > 1) {
-        for (let i = 0; i < healthyServers.length; i++) {
-          const server = healthyServers[i];
-          const weight = Math.floor((1 / healthyServers.length) * 100);
-          zoneContent += `_${lb.name}._tcp.${domain.name}.       IN      SRV     0 ${weight} ${server.port} ${server.ip}\n`;
-        }
-      }
+  // Parsed from `rndc zonestatus`, e.g. `serial: 2026101901` and
+  // `next refresh: Mon, 19 Oct 2026 13:00:00 GMT`
+  async transferStatus(zoneName: string, view?: string): Promise<TransferStatus> {
+    const status: TransferStatus = { serial: null, loadedAt: null, refreshAt: null, expiresAt: null };
+    try {
+      const { stdout } = await execAsync(`${this.config.rndcPath} zonestatus ${zoneName}${view ? ` IN ${view}` : ''}`);
+      const fields = new Map(stdout.split('\n')
+        .map(line => line.match(/^([a-z ]+):\s*(.*)$/))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .map(([, key, value]) => [key, value.trim()]));
+      const date = (key: string) => fields.has(key) ? new Date(fields.get(key)!) : null;
+
+      if (fields.has('serial')) status.serial = Number(fields.get('serial'));
+      status.loadedAt = date('last loaded');
+      status.refreshAt = date('next refresh');
+      status.expiresAt = date('expires');
+    } catch (error) {
+      const { stderr, message } = error as { stderr?: string; message: string };
+      status.error = (stderr || message).trim();
     }
+    return status;
   }
 
-  // Write zone file
-  const fs = require('fs').promises;
-  await fs.writeFile(zoneFilePath, zoneContent);
-  
-  console.log(`Created zone file: ${zoneFilePath}`);
-}
+  // named-checkzone on a scratch copy of the rendered zone
+  async validateZone(zone: ZoneSnapshot) {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'zone-check-'));
+    const file = path.join(dir, `${zone.name}.zone`);
+    try {
+      await fs.writeFile(file, this.renderZone(zone));
+      return await runChecker(`${this.config.checkzonePath} ${zone.name} ${file}`);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  // Compares the file with the rendered zone; when they differ the RRsets are
+  // compared through named-checkzone's canonical dump of the file, so a file
+  // that differs in layout alone is still in sync
+  async checkZoneFile(zone: ZoneSnapshot): Promise<DriftCheck> {
+    const file = this.zoneFilePath(zone.name, zone.view);
+    const content = await readFileIfExists(file);
+    if (content === null) return { status: 'missing', diffs: [], error: `${file} does not exist` };
+    if (content === this.renderZone(zone)) return { status: 'in-sync', diffs: [] };
+    return this.compareZoneFile(zone, file);
+  }
+
+  protected async compareZoneFile(zone: ZoneSnapshot, file: string, options: { ignoreSerial?: boolean } = {}): Promise<DriftCheck> {
+    try {
+      const { stdout } = await execAsync(`${this.config.checkzonePath} -D -o - ${zone.name} ${file}`, { maxBuffer: MAX_BUFFER });
+      const diffs = diffRRSets(zoneRRSets(zone), parseRRSets(stdout), options);
+      return { status: diffs.length > 0 ? 'drifted' : 'in-sync', diffs };
+    } catch (error) {
+      const { stdout, stderr, message } = error as { stdout?: string; stderr?: string; message: string };
+      return { status: 'drifted', diffs: [], error: `${file} could not be read: ${`${stdout || ''}${stderr || ''}`.trim() || message}` };
+    }
+  }
+
+  // Compares an AXFR of the zone with the zone. Signed zones get their serial
+  // bumped by named, so the serial is not compared.
+  async checkServedZone(zone: ZoneSnapshot): Promise<DriftCheck> {
+    const current = await this.transferZone(zone.name);
+    if (!current) return { status: 'missing', diffs: [], error: `${zone.name} could not be transferred from the server` };
+    const diffs = diffRRSets(zoneRRSets(zone), current, { ignoreSerial: true });
+    return { status: diffs.length > 0 ? 'drifted' : 'in-sync', diffs };
+  }
+
+  // Keys named generated for the zone's dnssec-policy
+  async dnssecKeys(zoneName: string) {
+    return readBindKeys(this.config.keyDir, zoneName);
+  }
+
+  // Who may send dynamic updates (RFC 2136) to the managed zones
+  protected allowUpdate() {
+    return 'none;';
+  }
+
+  // Keys the backend itself transfers zones with; they stay allowed when a
+  // zone restricts allow-transfer
+  protected transferKeys(): string[] {
+    return [];
+  }
+
+  protected transferCommand(zoneName: string) {
+    const { digPath, transferServer, transferPort } = this.config;
+    return `${digPath} @${transferServer} -p ${transferPort} AXFR ${zoneName}. +nocmd +nostats +nocomments`;
+  }
+
+  // Zone as currently served, or null if the transfer fails
+  protected async transferZone(zoneName: string): Promise<RRSet[] | null> {
+    try {
+      const { stdout } = await execAsync(this.transferCommand(zoneName), { maxBuffer: MAX_BUFFER });
+      if (stdout.includes('Transfer failed')) return null;
+
+      const rrsets = parseRRSets(stdout);
+      return rrsets.some(rrset => rrset.type === 'SOA') ? rrsets : null;
+    } catch (error) {
+      console.error(`AXFR of ${zoneName} failed:`, (error as Error).message);
+      return null;
+    }
+  }
+
+  private transferOptions(zone: ManagedZone) {
+    let options = '';
+    if (zone.allowTransfer.length > 0) {
+      // The server itself stays allowed for the drift checks
+      const entries = [
+        ...zone.allowTransfer.map(entry => entry.key ? `key "${entry.key}";` : `${entry.address};`),
+        ...this.transferKeys().map(key => `key "${key}";`),
+        'localhost;'
+      ];
+      options += `    allow-transfer { ${[...new Set(entries)].join(' ')} };\n`;
+    }
+    if (zone.alsoNotify.length > 0) {
+      const entries = zone.alsoNotify.map(entry => `${entry.address}${entry.key ? ` key "${entry.key}"` : ''};`);
+      options += `    also-notify { ${entries.join(' ')} };\n`;
+    }
+    return options;
+  }
+
+  private keyBlock(key: TsigKey) {
+    return `key "${key.name}" {
+    algorithm ${key.algorithm};
+    secret "${key.secret}";
+};
+
+`;
+  }
+
+  // Signed zones use the managed policy; zones being unsigned keep inline
+  // signing with the built-in insecure policy until their keys are gone
+  private dnssecOptions(zone: ManagedZone) {
+    if (zone.dnssec === 'off') return '';
+    const policy = zone.dnssec === 'signed' ? `"${DNSSEC_POLICY}"` : 'insecure';
+    return `    dnssec-policy ${policy};
+    inline-signing yes;
+    key-directory "${this.config.keyDir}";
+`;
+  }
+
+  private primaries(zone: ManagedZone) {
+    const key = zone.transferKey ? ` key "${zone.transferKey}"` : '';
+    return zone.primaries.map(address => `${address}${key};`).join(' ');
+  }
+
+  // Zone statement for one view, or for the server when views are not used.
+  // Only one view may sign a zone, since the views would share its keys; the
+  // default view does.
+  private zoneBlock(zone: ManagedZone, view: string | null) {
+    const file = this.zoneFilePath(zone.name, view);
+    const dnssec = !view || view === DEFAULT_VIEW ? this.dnssecOptions(zone) : '';
+    return zone.type === 'secondary' ? `zone "${zone.name}" {
+    type secondary;
+    file "${file}";
+    primaries { ${this.primaries(zone)} };
+${this.transferOptions(zone)}${dnssec}};
+
+` : `zone "${zone.name}" {
+    type master;
+    file "${file}";
+    allow-update { ${this.allowUpdate()} };
+${this.transferOptions(zone)}${dnssec}};
+
+`;
+  }
+
+  private viewBlock(view: ServerView, zones: ManagedZone[]) {
+    return `view "${view.name}" {
+    match-clients { ${view.matchClients.map(element => `${element};`).join(' ')} };
+
+${indent(zones.map(zone => this.zoneBlock(zone, view.name)).join('').trimEnd())}
+};
+
+`;
+  }
+
+  private dnssecPolicy() {
+    const { dnssecAlgorithm, kskLifetime, zskLifetime } = this.config;
+    return `dnssec-policy "${DNSSEC_POLICY}" {
+    keys {
+        ksk key-directory lifetime ${kskLifetime} algorithm ${dnssecAlgorithm};
+        zsk key-directory lifetime ${zskLifetime} algorithm ${dnssecAlgorithm};
+    };
+};
 
-async function updateNamedConfLocal(domains: Domain[]) {
-  const fs = require('fs').promises;
-  
-  let configContent = `//
+`;
+  }
+
+  // Checks the new named.conf.local; null when it is unchanged
+  private async stageNamedConfLocal({ zones, keys, views }: ServerConfig) {
+    let configContent = `//
 // Do any local configuration here
 //
 
@@ -236,50 +391,144 @@ async function updateNamedConfLocal(domains: Domain[]) {
 
 `;
 
-  // Add zone configurations for each domain from database
-  for (const domain of domains) {
-    configContent += `zone "${domain.name}" {
-    type master;
-    file "/etc/bind/zones/${domain.name}.zone";
-    allow-update { none; };
-};
+    for (const key of keys) configContent += this.keyBlock(key);
+    if (zones.some(zone => zone.dnssec === 'signed')) configContent += this.dnssecPolicy();
 
-`;
+    // Add zone configurations for each managed zone, in every view when
+    // views are used; clients that match no view get the default one
+    if (views.length === 0) {
+      for (const zone of zones) configContent += this.zoneBlock(zone, null);
+    } else {
+      for (const view of [...views, { name: DEFAULT_VIEW, matchClients: ['any'] }]) {
+        configContent += this.viewBlock(view, zones);
+      }
+    }
+
+    if (await readFileIfExists(this.config.namedConfLocal) === configContent) return null;
+
+    // TSIG secrets must not be world readable
+    return this.stage(this.config.namedConfLocal, configContent, 'named.conf.local',
+      file => `${this.config.checkconfPath} ${file}`, keys.length > 0);
   }
 
-  // Write the configuration file
-  await fs.writeFile(NAMED_CONF_LOCAL, configContent);
-  console.log('Updated named.conf.local');
-}
+  // Renders and checks the zone file; null when the live file already has
+  // this content
+  private async stageZone(zone: ZoneSnapshot) {
+    const zoneFilePath = this.zoneFilePath(zone.name, zone.view);
+    const zoneContent = this.renderZone(zone);
 
-async function reloadBind9() {
-  try {
-    // Reload zones using rndc
-    await execAsync(`${RNDC_PATH} reload`);
-    console.log('Bind9 zones reloaded successfully');
-  } catch (error) {
-    console.error('Error reloading Bind9:', error);
-    // Try to restart BIND9 as fallback
-    try {
-      await execAsync('sudo service named restart');
-      console.log('Bind9 restarted successfully');
-    } catch (restartError) {
-      console.error('Error restarting Bind9:', restartError);
-      throw restartError;
+    if (await readFileIfExists(zoneFilePath) === zoneContent) return null;
+
+    await fs.mkdir(path.dirname(zoneFilePath), { recursive: true });
+    const label = zone.view ? `${zone.name} (view ${zone.view})` : zone.name;
+    return this.stage(zoneFilePath, zoneContent, label,
+      file => `${this.config.checkzonePath} ${zone.name} ${file}`);
+  }
+
+  // Stages the checked zone file; false when it is unchanged
+  protected async prepareZone(zone: ZoneSnapshot) {
+    const staged = await this.stageZone(zone);
+    if (!staged) return false;
+
+    this.staged = [...this.staged.filter(file => file.target !== staged.target), { ...staged, zoneName: zone.name, serial: zone.serial }];
+    return true;
+  }
+
+  // Runs once every file of the sync is live
+  protected async reloadZones(zoneNames: string[], views: (string | null)[]) {
+    for (const zoneName of zoneNames) {
+      for (const view of views) {
+        await this.rndc(view ? `reload ${zoneName} IN ${view}` : `reload ${zoneName}`);
+      }
     }
   }
-}
 
-// DNS load balancer health check sonuçlarına göre DNS kayıtlarını güncelle
-export async function updateDNSLoadBalancerRecords() {
-  try {
-    // Tüm domain'leri yeniden senkronize et
-    await syncBind9();
-    
-    console.log('DNS load balancer records updated successfully');
-  } catch (error) {
-    console.error('Error updating DNS load balancer records:', error);
-    throw error;
+  // Checks and activates the zone file right away, for zones named loads
+  // outside reload(). Resolves to false when the file is unchanged.
+  protected async writeZone(zone: ZoneSnapshot) {
+    const staged = await this.stageZone(zone);
+    if (!staged) return false;
+    await this.activate(staged);
+    console.log(`Updated zone file: ${staged.target} (serial ${zone.serial})`);
+    return true;
+  }
+
+  private async discardStaged(files: StagedFile[]) {
+    for (const file of files) await fs.rm(file.staging, { force: true });
+    this.staged = this.staged.filter(file => !files.includes(file));
+  }
+
+  // The staged file keeps the live file's mode and group, so named can still
+  // read it when the app runs as another user. `secret` files are closed to
+  // other users.
+  protected async stage(target: string, content: string, label: string, checker: (file: string) => string, secret = false) {
+    const staged: StagedFile = {
+      target,
+      staging: `${target}.staging`,
+      backup: `${target}.last-good`
+    };
+    const live = await fs.stat(target).catch(() => null);
+    const mode = live ? live.mode & (secret ? 0o770 : 0o777) : secret ? 0o640 : undefined;
+    await fs.writeFile(staged.staging, content, mode === undefined ? undefined : { mode });
+    if (mode !== undefined) await fs.chmod(staged.staging, mode);
+    if (live && live.gid !== (await fs.stat(staged.staging)).gid) {
+      await fs.chown(staged.staging, -1, live.gid)
+        .catch(error => console.warn(`Could not give ${target} its group ${live.gid} back: ${error.message}`));
+    }
+
+    const output = await runChecker(checker(staged.staging));
+    if (output !== null) {
+      await fs.rm(staged.staging, { force: true });
+      throw new ZoneValidationError(label, output);
+    }
+
+    return staged;
+  }
+
+  // The current live copy is kept as the last known-good version first;
+  // rename() keeps the swap atomic.
+  private async activate(staged: StagedFile) {
+    if (await readFileIfExists(staged.target) !== null) {
+      await fs.copyFile(staged.target, staged.backup);
+    }
+    await fs.rename(staged.staging, staged.target);
+    this.pending.push(staged);
+  }
+
+  private async restoreLastKnownGood() {
+    for (const file of this.pending) {
+      if (await readFileIfExists(file.backup) !== null) {
+        await fs.copyFile(file.backup, `${file.target}.restore`);
+        await fs.rename(`${file.target}.restore`, file.target);
+      } else {
+        await fs.rm(file.target, { force: true });
+      }
+    }
+    this.pending = [];
+  }
+
+  protected async rndc(command: string) {
+    await execAsync(`${this.config.rndcPath} ${command}`);
+    console.log(`rndc ${command}: ok`);
+  }
+
+  // Full reload, used to recover after a failed incremental reload
+  private async rndcReload() {
+    try {
+      // Reload zones using rndc
+      await execAsync(`${this.config.rndcPath} reload`);
+      console.log('Bind9 zones reloaded successfully');
+    } catch (error) {
+      console.error('Error reloading Bind9:', error);
+      // Try to restart BIND9 as fallback
+      try {
+        await execAsync('sudo service named restart');
+        console.log('Bind9 restarted successfully');
+      } catch (restartError) {
+        console.error('Error restarting Bind9:', restartError);
+        throw restartError;
+      }
+    }
   }
 }
 
@@ -296,12 +545,12 @@ export async function checkDNSPropagation(domain: string, recordType: string = '
 
 // Zone file validation
 export async function validateZoneFile(domain: string) {
-  try {
-    const zoneFile = `${ZONE_DIR}/${domain}.zone`;
-    const result = await execAsync(`named-checkzone ${domain} ${zoneFile}`);
-    return result.stdout.includes('OK');
-  } catch (error) {
-    console.error('Zone file validation error:', error);
+  const config = bind9ConfigFromEnv();
+  const zoneFile = `${config.zoneDir}/${domain}.zone`;
+  const output = await runChecker(`${config.checkzonePath} ${domain} ${zoneFile}`);
+  if (output !== null) {
+    console.error('Zone file validation error:', output);
     return false;
   }
+  return true;
 }
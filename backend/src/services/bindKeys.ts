@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DnssecKey } from './dnsBackend';
+
+// Reads the keys BIND keeps for a zone under dnssec-policy: K<zone>.+<alg>+<tag>.key
+// holds the DNSKEY record, the .state file next to it the key's role, timing
+// and rollover state (BIND 9.16+).
+
+const KEY_FILE_REGEX = /^K(.+)\.\+(\d{3})\+(\d{5})\.key$/;
+
+function readState(text: string) {
+  const state = new Map<string, string>();
+  for (const line of text.split('\n')) {
+    const match = line.match(/^([A-Za-z]+):\s*(.*)$/);
+    if (match) state.set(match[1], match[2].trim());
+  }
+  return state;
+}
+
+// State file timestamps look like `20261019120000 (Mon Oct 19 12:00:00 2026)`, in UTC
+function stateDate(value: string | undefined) {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+}
+
+function keyState(state: Map<string, string>) {
+  const dnskey = state.get('DNSKEYState');
+  if (state.get('GoalState') === 'hidden') return dnskey === 'hidden' ? 'removed' : 'retiring';
+  if (dnskey === 'rumoured') return 'published';
+  if (dnskey === 'omnipresent') return 'active';
+  return 'unknown';
+}
+
+function keyRole(flags: number, state: Map<string, string>): DnssecKey['role'] {
+  const ksk = state.has('KSK') ? state.get('KSK') === 'yes' : (flags & 1) === 1;
+  const zsk = state.has('ZSK') ? state.get('ZSK') === 'yes' : !ksk;
+  if (ksk && zsk) return 'CSK';
+  return ksk ? 'KSK' : 'ZSK';
+}
+
+async function readKey(keyDir: string, file: string): Promise<DnssecKey | null> {
+  const [, , , tag] = file.match(KEY_FILE_REGEX)!;
+  const keyFile = await fs.readFile(path.join(keyDir, file), 'utf8');
+  const dnskey = keyFile
+    .split('\n')
+    .filter(line => !line.trim().startsWith(';'))
+    .map(line => line.match(/\bDNSKEY\s+(\d+)\s+(\d+)\s+(\d+)\s+(.+)$/i))
+    .find(Boolean);
+  if (!dnskey) return null;
+
+  const stateFile = await fs.readFile(path.join(keyDir, file.replace(/\.key$/, '.state')), 'utf8').catch(() => '');
+  const state = readState(stateFile);
+  const flags = Number(dnskey[1]);
+  const role = keyRole(flags, state);
+  const activatedAt = stateDate(state.get('Active'));
+  const lifetime = Number(state.get('Lifetime') || 0);
+
+  return {
+    keyTag: Number(tag),
+    role,
+    algorithm: Number(dnskey[3]),
+    flags,
+    publicKey: dnskey[4].replace(/\s+/g, ''),
+    state: stateFile ? keyState(state) : 'unknown',
+    dsState: role === 'ZSK' ? null : state.get('DSState') ?? null,
+    publishedAt: stateDate(state.get('Published')),
+    activatedAt,
+    // Scheduled retirement, or the end of the key's lifetime when it rolls
+    retireAt: stateDate(state.get('Retired'))
+      ?? (activatedAt && lifetime > 0 ? new Date(activatedAt.getTime() + lifetime * 1000) : null),
+    removeAt: stateDate(state.get('Removed'))
+  };
+}
+
+// Keys of one zone in the key directory; none when the directory is missing
+export async function readBindKeys(keyDir: string, zoneName: string) {
+  const files = await fs.readdir(keyDir).catch((error: NodeJS.ErrnoException) => {
+    if (error.code === 'ENOENT') return [] as string[];
+    throw error;
+  });
+  const zone = zoneName.toLowerCase().replace(/\.$/, '');
+  const keys: DnssecKey[] = [];
+
+  for (const file of files) {
+    const match = file.match(KEY_FILE_REGEX);
+    if (!match || match[1].toLowerCase().replace(/\.$/, '') !== zone) continue;
+    const key = await readKey(keyDir, file);
+    if (key) keys.push(key);
+  }
+
+  return keys.sort((a, b) => a.role.localeCompare(b.role) || a.keyTag - b.keyTag);
+}
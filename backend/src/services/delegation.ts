@@ -0,0 +1,140 @@
+import { PrismaClient } from '@prisma/client';
+import { isIPv4, isIPv6 } from 'net';
+import { ZoneRecord } from './dnsBackend';
+import { absoluteOwner, hostnameError, normalizeOwner } from './ownerName';
+import { MAX_TTL, MIN_TTL } from './recordValidation';
+import { NameServerConfig, glueOwner, qualifyName } from './soaProfile';
+import { lintRecords } from './zoneLint';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_DELEGATION_TTL = 3600;
+
+export interface DelegationConfig {
+  id: string;
+  // Owner relative to the zone
+  name: string;
+  ttl: number;
+  nameServers: NameServerConfig[];
+}
+
+// Whether `hostname` (fully qualified) is at or below the cut `owner` of the
+// zone, so resolvers can only find its address through glue
+export function belowCut(hostname: string, owner: string, zoneName: string) {
+  const cut = absoluteOwner(owner, zoneName);
+  const name = hostname.toLowerCase();
+  return name === cut || name.endsWith(`.${cut}`);
+}
+
+// Delegation from a POST/PUT body like { name: 'dev', ttl: 3600,
+// nameServers: [{ hostname: 'ns1.dev.example.com', ipv4: '192.0.2.53' },
+// { hostname: 'ns.other.net' }] }. Glue addresses are required for
+// nameservers below the cut and refused for the others. Errors for
+// nameservers are keyed `nameServers.N`.
+export function parseDelegationInput(body: Record<string, unknown>, domainName: string) {
+  const errors: Record<string, string> = {};
+
+  const owner = normalizeOwner(String(body.name ?? ''), domainName);
+  const name = owner.name ?? '';
+  if (owner.error || !body.name) errors.name = owner.error ?? 'Name is required';
+  else if (name === '@') errors.name = 'Apex nameservers are managed in the SOA profile';
+  else if (name.split('.').includes('*')) errors.name = 'A wildcard name cannot be delegated';
+
+  const ttl = body.ttl === undefined || body.ttl === null || body.ttl === '' ? DEFAULT_DELEGATION_TTL : Number(body.ttl);
+  if (!Number.isInteger(ttl) || ttl < MIN_TTL || ttl > MAX_TTL) {
+    errors.ttl = `TTL must be a whole number between ${MIN_TTL} and ${MAX_TTL} seconds`;
+  }
+
+  const nameServers: NameServerConfig[] = [];
+  if (!Array.isArray(body.nameServers) || body.nameServers.length === 0) {
+    errors.nameServers = 'At least one nameserver is required';
+  } else {
+    body.nameServers.forEach((item: unknown, index) => {
+      const ns = (item ?? {}) as Record<string, unknown>;
+      const hostname = String(ns.hostname ?? '').trim().toLowerCase();
+      const ipv4 = ns.ipv4 ? String(ns.ipv4).trim() : null;
+      const ipv6 = ns.ipv6 ? String(ns.ipv6).trim() : null;
+      const key = `nameServers.${index}`;
+
+      const error = hostname ? hostnameError(hostname) : 'must not be empty';
+      if (error) {
+        errors[key] = `Nameserver ${error}`;
+        return;
+      }
+      const qualified = qualifyName(hostname, domainName);
+      if (ipv4 && !isIPv4(ipv4)) errors[key] = `${ipv4} is not a valid IPv4 address`;
+      else if (ipv6 && !isIPv6(ipv6)) errors[key] = `${ipv6} is not a valid IPv6 address`;
+      else if (name && belowCut(qualified, name, domainName)) {
+        if (!ipv4 && !ipv6) errors[key] = `${qualified} is below the delegation and needs a glue address`;
+      } else if (ipv4 || ipv6) {
+        errors[key] = `Glue is only published for nameservers below the delegation; add an A/AAAA record for ${qualified} instead`;
+      }
+      nameServers.push({ hostname: qualified, ipv4, ipv6 });
+    });
+  }
+
+  if (Object.keys(errors).length > 0) return { errors };
+  return { data: { name, ttl, nameServers }, errors };
+}
+
+// NS records at the cut and glue for the nameservers below it, in the form of
+// the zone's own records
+export function delegationRecords(zoneName: string, delegations: DelegationConfig[]): ZoneRecord[] {
+  const records: ZoneRecord[] = [];
+  for (const delegation of delegations) {
+    const { id, name, ttl } = delegation;
+    delegation.nameServers.forEach((ns, index) => {
+      records.push({ id: `delegation:${id}:ns:${index}`, type: 'NS', name, value: ns.hostname, ttl });
+    });
+    delegation.nameServers.forEach((ns, index) => {
+      const owner = glueOwner(ns.hostname, zoneName);
+      if (!owner || !belowCut(ns.hostname, name, zoneName)) return;
+      if (ns.ipv4) records.push({ id: `delegation:${id}:a:${index}`, type: 'A', name: owner, value: ns.ipv4, ttl });
+      if (ns.ipv6) records.push({ id: `delegation:${id}:aaaa:${index}`, type: 'AAAA', name: owner, value: ns.ipv6, ttl });
+    });
+  }
+  return records;
+}
+
+// Why the delegation cannot be added to the zone's records, or null. Records
+// at or below the cut other than DS and the nameservers' glue would no longer
+// be served.
+export function delegationConflict(zoneName: string, records: ZoneRecord[], delegation: DelegationConfig) {
+  const prefix = `delegation:${delegation.id}:`;
+  const added = delegationRecords(zoneName, [delegation]);
+  const issues = lintRecords(zoneName, [...records.filter(record => !record.id.startsWith(prefix)), ...added]);
+  const issue = issues.find(issue => issue.rule === 'occluded' && issue.recordIds.some(id => id.startsWith(prefix)));
+  return issue?.message ?? null;
+}
+
+export async function getDelegations(domainId: string): Promise<DelegationConfig[]> {
+  return prisma.delegation.findMany({
+    where: { domainId },
+    select: { id: true, name: true, ttl: true, nameServers: { select: { hostname: true, ipv4: true, ipv6: true }, orderBy: { position: 'asc' } } },
+    orderBy: { name: 'asc' }
+  });
+}
+
+function nameServerRows(nameServers: NameServerConfig[]) {
+  return nameServers.map(({ hostname, ipv4, ipv6 }, position) => ({ hostname, ipv4: ipv4 ?? null, ipv6: ipv6 ?? null, position }));
+}
+
+export async function createDelegation(domainId: string, { name, ttl, nameServers }: Omit<DelegationConfig, 'id'>) {
+  return prisma.delegation.create({
+    data: { name, ttl, domainId, nameServers: { create: nameServerRows(nameServers) } },
+    include: { nameServers: { orderBy: { position: 'asc' } } }
+  });
+}
+
+// Replaces the delegation's name, TTL and nameservers
+export async function saveDelegation(id: string, { name, ttl, nameServers }: Omit<DelegationConfig, 'id'>) {
+  const [, delegation] = await prisma.$transaction([
+    prisma.delegationNameServer.deleteMany({ where: { delegationId: id } }),
+    prisma.delegation.update({
+      where: { id },
+      data: { name, ttl, nameServers: { create: nameServerRows(nameServers) } },
+      include: { nameServers: { orderBy: { position: 'asc' } } }
+    })
+  ]);
+  return delegation;
+}
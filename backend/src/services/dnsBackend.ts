@@ -0,0 +1,204 @@
+import { SOAConfig } from './soaProfile';
+import { RRSetDiff } from './rrset';
+
+export interface ZoneRecord {
+  id: string;
+  name: string;
+  type: string;
+  value: string;
+  ttl: number;
+  priority?: number | null;
+  weight?: number | null;
+  port?: number | null;
+  rdata?: unknown;
+  // Names of the views the record is scoped to; empty for every view
+  views?: string[];
+  isLoadBalanced?: boolean;
+  loadBalancerId?: string | null;
+}
+
+export interface ZoneLoadBalancer {
+  id: string;
+  name: string;
+  isActive: boolean;
+  algorithm: string;
+  servers: Array<{
+    id: string;
+    name: string;
+    ip: string;
+    port: number;
+    weight: number;
+    isActive: boolean;
+    health?: {
+      status: string;
+      responseTime: number;
+    } | null;
+  }>;
+}
+
+// Everything a driver needs to publish one zone. `serial` is the SOA serial
+// to publish, already decided by the sync layer. With split-horizon views the
+// zone is published once per view, `view` naming the copy.
+export interface ZoneSnapshot {
+  id: string;
+  name: string;
+  view?: string | null;
+  serial: number;
+  zoneHash?: string | null;
+  soa: SOAConfig;
+  records: ZoneRecord[];
+  loadBalancers: ZoneLoadBalancer[];
+}
+
+// How a zone is signed: 'unsigning' keeps the old keys published while the
+// zone goes back to insecure, so resolvers holding the DS do not fail
+export type DnssecMode = 'off' | 'signed' | 'unsigning';
+
+// Primary zones are published from the database, secondary zones are
+// transferred from other servers
+export type ZoneType = 'primary' | 'secondary';
+
+// An allow-transfer or also-notify entry: an address or range, a TSIG key
+// name, or for notify an address sent with a key
+export interface AclEntry {
+  address: string | null;
+  key: string | null;
+}
+
+// A zone as listed in the server configuration
+export interface ManagedZone {
+  name: string;
+  type: ZoneType;
+  // Addresses a secondary zone is transferred from
+  primaries: string[];
+  // TSIG key signing those transfers
+  transferKey: string | null;
+  dnssec: DnssecMode;
+  // Who may transfer the zone; empty leaves the server default
+  allowTransfer: AclEntry[];
+  // Servers notified of changes besides the zone's NS records
+  alsoNotify: AclEntry[];
+}
+
+export interface TsigKey {
+  name: string;
+  algorithm: string;
+  secret: string;
+}
+
+// Split-horizon view; clients that match no view get DEFAULT_VIEW
+export interface ServerView {
+  name: string;
+  matchClients: string[];
+}
+
+// Catch-all view added after the configured ones. It serves the records that
+// are not scoped to a view.
+export const DEFAULT_VIEW = 'default';
+
+// Server wide configuration: every managed zone, the TSIG keys they use and
+// the views, empty when split-horizon is not used
+export interface ServerConfig {
+  zones: ManagedZone[];
+  keys: TsigKey[];
+  views: ServerView[];
+}
+
+// What the server reports about a secondary zone
+export interface TransferStatus {
+  // Serial of the copy being served, null until the first transfer succeeded
+  serial: number | null;
+  loadedAt: Date | null;
+  refreshAt: Date | null;
+  expiresAt: Date | null;
+  error?: string;
+}
+
+// How a published copy of a zone compares with the database. 'missing' means
+// there is no copy, 'unavailable' that it could not be checked.
+export type DriftStatus = 'in-sync' | 'drifted' | 'missing' | 'unavailable';
+
+export interface DriftCheck {
+  status: DriftStatus;
+  // RRsets that differ; empty when they could not be listed
+  diffs: RRSetDiff[];
+  error?: string;
+}
+
+// A signing key as reported by the server. The server generates and rolls
+// the keys; only their public part and timing are read back.
+export interface DnssecKey {
+  keyTag: number;
+  role: 'KSK' | 'ZSK' | 'CSK';
+  algorithm: number;
+  flags: number;
+  publicKey: string;
+  // published, active, retiring or removed
+  state: string;
+  dsState: string | null;
+  publishedAt: Date | null;
+  activatedAt: Date | null;
+  retireAt: Date | null;
+  removeAt: Date | null;
+}
+
+// A DNS server implementation the zones are published to
+export interface DnsBackend {
+  readonly name: string;
+
+  // Whether zones can be published per view; other backends get only the
+  // records that are not scoped to a view
+  readonly supportsViews?: boolean;
+
+  // Canonical text form of the zone (RFC 1035 master file)
+  renderZone(zone: ZoneSnapshot): string;
+
+  // Publishes a zone, or checks it and leaves it for reload() to make live.
+  // Resolves to false when the backend already had exactly this content.
+  // Throws ZoneValidationError if the backend rejects it.
+  applyZone(zone: ZoneSnapshot): Promise<boolean>;
+
+  removeZone(zoneName: string): Promise<void>;
+
+  // Optional: removes what was published for a view that was renamed or
+  // deleted, for backends that publish views
+  removeView?(viewName: string): Promise<void>;
+
+  // Makes applied changes live. `server` lists every managed zone and key,
+  // `changed` the names of zones whose content was applied since the last reload.
+  reload(server: ServerConfig, changed: string[]): Promise<void>;
+
+  // Optional: RRsets where what the server serves differs from the zone.
+  // Resolves to null when the server does not have the zone at all.
+  detectDrift?(zone: ZoneSnapshot): Promise<RRSetDiff[] | null>;
+
+  // Optional: checks a rendered zone the way applyZone would, without
+  // publishing it. Resolves to the backend's complaint, or null when it passes.
+  validateZone?(zone: ZoneSnapshot): Promise<string | null>;
+
+  // Optional: compares the zone file written for the zone (or its view copy)
+  // with the rendered zone
+  checkZoneFile?(zone: ZoneSnapshot): Promise<DriftCheck>;
+
+  // Optional: compares what the server answers to an AXFR with the zone
+  checkServedZone?(zone: ZoneSnapshot): Promise<DriftCheck>;
+
+  // Optional: the zone's DNSSEC keys, for backends that sign zones
+  dnssecKeys?(zoneName: string): Promise<DnssecKey[]>;
+
+  // Optional: transfer state of a secondary zone, for backends that serve them
+  transferStatus?(zoneName: string, view?: string): Promise<TransferStatus>;
+}
+
+// Thrown when a backend rejects a rendered zone or configuration. The live
+// configuration is left untouched when this happens.
+export class ZoneValidationError extends Error {
+  // Domain whose zone was rejected, set by the sync; absent when the server
+  // configuration was
+  domainId?: string;
+
+  constructor(public zone: string, public output: string) {
+    super(`Zone ${zone} failed validation: ${output.trim().split('\n')[0]}`);
+    this.name = 'ZoneValidationError';
+  }
+}
@@ -1,6 +1,8 @@
 import { PrismaClient } from '@prisma/client';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { updateDNSLoadBalancerRecords } from './syncQueue';
+import { normalizeOwner } from './ownerName';
 
 const execAsync = promisify(exec);
 const prisma = new PrismaClient();
@@ -321,8 +323,8 @@ export class DNSLoadBalancerService {
           await this.updateRoundRobinDNS(loadBalancer, healthyServers);
       }
 
-      // Bind9'u yeniden yükle
-      await this.reloadBind9();
+      // Zone'ları yapılandırılmış DNS backend'e yeniden yayınla
+      await updateDNSLoadBalancerRecords(loadBalancer.domainId);
       
     } catch (error) {
       console.error(`Failed to update DNS records for ${loadBalancer.name}:`, error);
@@ -396,7 +398,7 @@ export class DNSLoadBalancerService {
   private async createOrUpdateDNSRecord(loadBalancer: any, server: any) {
     try {
       // A record oluştur/güncelle
-      const recordName = `${loadBalancer.name}.${loadBalancer.domain.name}`;
+      const recordName = normalizeOwner(loadBalancer.name, loadBalancer.domain.name).name ?? loadBalancer.name;
       
       // Önce mevcut kaydı kontrol et
       const existingRecord = await prisma.dNSRecord.findFirst({
@@ -435,16 +437,6 @@ export class DNSLoadBalancerService {
     }
   }
 
-  private async reloadBind9() {
-    try {
-      // Bind9'u yeniden yükle
-      await execAsync('rndc reload');
-      console.log('Bind9 reloaded successfully');
-    } catch (error) {
-      console.error('Failed to reload Bind9:', error);
-    }
-  }
-
   // Public methods for API endpoints
   async getAllLoadBalancers() {
     // @ts-ignore - Prisma model adları dinamik olarak oluşturuluyor
@@ -0,0 +1,117 @@
+import { createHash } from 'crypto';
+import { DNSSECKey, PrismaClient } from '@prisma/client';
+import { DnssecKey } from './dnsBackend';
+import { queueSync } from './syncQueue';
+import { getDnsBackend } from './zoneSync';
+
+const prisma = new PrismaClient();
+
+// DS record to hand to the registrar for a KSK/CSK
+export interface DSRecord {
+  keyTag: number;
+  algorithm: number;
+  // 2 = SHA-256 (RFC 4509)
+  digestType: number;
+  digest: string;
+  record: string;
+}
+
+export interface DnssecStatus {
+  enabled: boolean;
+  // Whether the configured backend signs zones
+  supported: boolean;
+  keys: DNSSECKey[];
+  ds: DSRecord[];
+  // Set when the keys could not be read from the server; `keys` are then the last known state
+  error?: string;
+}
+
+interface DnssecDomain {
+  id: string;
+  name: string;
+  dnssecEnabled: boolean;
+}
+
+// Owner name in wire format, lower case as required for the digest (RFC 4034 6.2)
+function wireName(zoneName: string) {
+  const labels = zoneName.toLowerCase().replace(/\.$/, '').split('.');
+  return Buffer.concat([
+    ...labels.map(label => Buffer.concat([Buffer.from([label.length]), Buffer.from(label, 'ascii')])),
+    Buffer.from([0])
+  ]);
+}
+
+function dnskeyRData(key: Pick<DnssecKey, 'flags' | 'algorithm' | 'publicKey'>) {
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(key.flags, 0);
+  header.writeUInt8(3, 2);
+  header.writeUInt8(key.algorithm, 3);
+  return Buffer.concat([header, Buffer.from(key.publicKey, 'base64')]);
+}
+
+// SHA-256 DS record of a key (RFC 4034 5.1.4)
+export function dsRecord(zoneName: string, key: Pick<DnssecKey, 'keyTag' | 'flags' | 'algorithm' | 'publicKey'>): DSRecord {
+  const digest = createHash('sha256')
+    .update(Buffer.concat([wireName(zoneName), dnskeyRData(key)]))
+    .digest('hex')
+    .toUpperCase();
+  const owner = `${zoneName.toLowerCase().replace(/\.$/, '')}.`;
+  return {
+    keyTag: key.keyTag,
+    algorithm: key.algorithm,
+    digestType: 2,
+    digest,
+    record: `${owner} IN DS ${key.keyTag} ${key.algorithm} 2 ${digest}`
+  };
+}
+
+// Brings the stored key state in line with what the server reports. Keys the
+// server has removed are dropped; once a zone being unsigned has none left,
+// a sync takes it out of inline signing.
+export async function refreshDnssecKeys(domain: DnssecDomain) {
+  const dns = getDnsBackend();
+  const stored = await prisma.dNSSECKey.findMany({ where: { domainId: domain.id } });
+  if (!dns.dnssecKeys) return stored;
+
+  const reported = (await dns.dnssecKeys(domain.name)).filter(key => key.state !== 'removed');
+  await prisma.$transaction([
+    prisma.dNSSECKey.deleteMany({
+      where: {
+        domainId: domain.id,
+        NOT: { OR: reported.map(({ keyTag, algorithm }) => ({ keyTag, algorithm })) }
+      }
+    }),
+    ...reported.map(key => prisma.dNSSECKey.upsert({
+      where: { domainId_keyTag_algorithm: { domainId: domain.id, keyTag: key.keyTag, algorithm: key.algorithm } },
+      create: { domainId: domain.id, ...key },
+      update: key
+    }))
+  ]);
+
+  if (!domain.dnssecEnabled && stored.length > 0 && reported.length === 0) {
+    queueSync({ domainIds: [domain.id] }).catch(error => console.error(`Error syncing ${domain.name} after unsigning:`, error));
+  }
+
+  return prisma.dNSSECKey.findMany({ where: { domainId: domain.id }, orderBy: [{ role: 'asc' }, { keyTag: 'asc' }] });
+}
+
+// Signing state of a domain and the DS records of its published key-signing keys
+export async function getDnssecStatus(domain: DnssecDomain): Promise<DnssecStatus> {
+  const supported = Boolean(getDnsBackend().dnssecKeys);
+  let keys: DNSSECKey[];
+  let error: string | undefined;
+
+  try {
+    keys = await refreshDnssecKeys(domain);
+  } catch (refreshError) {
+    console.error(`Error reading DNSSEC keys of ${domain.name}:`, refreshError);
+    error = `Keys could not be read from the server: ${(refreshError as Error).message}`;
+    keys = await prisma.dNSSECKey.findMany({ where: { domainId: domain.id }, orderBy: [{ role: 'asc' }, { keyTag: 'asc' }] });
+  }
+
+  const ds = keys
+    .filter(key => key.role !== 'ZSK' && (key.state === 'published' || key.state === 'active'))
+    .map(key => dsRecord(domain.name, key));
+
+  return { enabled: domain.dnssecEnabled, supported, keys, ds, ...(error ? { error } : {}) };
+}
@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_VIEW, DnsBackend, DriftCheck, ServerConfig, ZoneSnapshot } from './dnsBackend';
+import { renderZoneFile } from './zoneRenderer';
+
+// Filesystem-only driver: renders zones the same way as the BIND driver but
+// never touches a name server. Used for tests and local development.
+export class DryBackend implements DnsBackend {
+  readonly name = 'dry';
+  readonly supportsViews = true;
+
+  constructor(private baseDir: string = process.env.DNS_DRY_RUN_DIR || path.join(os.tmpdir(), 'dns-dry-run')) {}
+
+  renderZone(zone: ZoneSnapshot) {
+    return renderZoneFile(zone);
+  }
+
+  async applyZone(zone: ZoneSnapshot) {
+    const zoneFilePath = this.zoneFilePath(zone.name, zone.view);
+    const zoneContent = this.renderZone(zone);
+
+    const current = await fs.readFile(zoneFilePath, 'utf8').catch(() => null);
+    if (current === zoneContent) return false;
+
+    await fs.mkdir(path.dirname(zoneFilePath), { recursive: true });
+    await fs.writeFile(zoneFilePath, zoneContent);
+    console.log(`[dry] Wrote zone file: ${zoneFilePath} (serial ${zone.serial})`);
+    return true;
+  }
+
+  // Files are only compared as text
+  async checkZoneFile(zone: ZoneSnapshot): Promise<DriftCheck> {
+    const zoneFilePath = this.zoneFilePath(zone.name, zone.view);
+    const current = await fs.readFile(zoneFilePath, 'utf8').catch(() => null);
+    if (current === null) return { status: 'missing', diffs: [], error: `${zoneFilePath} does not exist` };
+    return { status: current === this.renderZone(zone) ? 'in-sync' : 'drifted', diffs: [] };
+  }
+
+  async removeZone(zoneName: string) {
+    const views = await fs.readdir(path.join(this.baseDir, 'views')).catch(() => [] as string[]);
+    for (const view of [DEFAULT_VIEW, ...views]) {
+      await fs.rm(this.zoneFilePath(zoneName, view), { force: true });
+    }
+    console.log(`[dry] Removed zone file for ${zoneName}`);
+  }
+
+  async removeView(viewName: string) {
+    await fs.rm(path.join(this.baseDir, 'views', viewName), { recursive: true, force: true });
+    console.log(`[dry] Removed zone files of view ${viewName}`);
+  }
+
+  async reload({ zones, views }: ServerConfig, changed: string[]) {
+    await fs.mkdir(this.baseDir, { recursive: true });
+    await fs.writeFile(path.join(this.baseDir, 'zones.json'), JSON.stringify(zones, null, 2));
+    await fs.writeFile(path.join(this.baseDir, 'views.json'), JSON.stringify(views, null, 2));
+    console.log(`[dry] Reload requested for ${changed.length} of ${zones.length} zones`);
+  }
+
+  zoneFilePath(zoneName: string, view?: string | null) {
+    if (view && view !== DEFAULT_VIEW) return path.join(this.baseDir, 'views', view, `${zoneName}.zone`);
+    return path.join(this.baseDir, 'zones', `${zoneName}.zone`);
+  }
+}
@@ -0,0 +1,51 @@
+import { domainToASCII, domainToUnicode } from 'url';
+
+// Internationalized names are stored and published as A-labels (xn--...).
+// Unicode labels are checked against the IDNA2008 code point rules that
+// matter in practice: letters, combining marks, digits and hyphens only, NFC,
+// no leading mark and the hyphen restrictions of RFC 5891.
+
+const U_LABEL_REGEX = /^[\p{L}\p{M}\p{Nd}-]+$/u;
+
+function asciiLabel(label: string): { label?: string; error?: string } {
+  const lower = label.toLowerCase();
+
+  if (/^\p{ASCII}*$/u.test(lower)) {
+    if (lower.startsWith('xn--')) {
+      const unicode = domainToUnicode(lower);
+      if (!unicode || unicode === lower || domainToASCII(unicode) !== lower) {
+        return { error: `"${label}" is not a valid A-label` };
+      }
+    }
+    return { label: lower };
+  }
+
+  const unicode = lower.normalize('NFC');
+  if (!U_LABEL_REGEX.test(unicode)) return { error: `"${label}" contains characters that are not allowed in domain names` };
+  if (/^\p{M}/u.test(unicode)) return { error: `"${label}" must not start with a combining mark` };
+  if (unicode.startsWith('-') || unicode.endsWith('-')) return { error: `"${label}" must not start or end with "-"` };
+  if (unicode.slice(2, 4) === '--') return { error: `"${label}" must not have "--" in the third and fourth position` };
+
+  const ascii = domainToASCII(unicode);
+  if (!ascii || ascii.includes('.')) return { error: `"${label}" cannot be converted to an A-label` };
+  return { label: ascii };
+}
+
+// A-label form of a name, label by label. '@', '*' and a trailing dot are
+// kept, ASCII labels are only lower-cased.
+export function toASCIIName(name: string): { name?: string; error?: string } {
+  if (name === '@' || name === '') return { name };
+  const labels = name.split('.');
+  const result: string[] = [];
+  for (const [index, label] of labels.entries()) {
+    // The empty label after a trailing dot
+    if (label === '' && index === labels.length - 1 && index > 0) {
+      result.push('');
+      continue;
+    }
+    const converted = asciiLabel(label);
+    if (converted.error) return { error: converted.error };
+    result.push(converted.label!);
+  }
+  return { name: result.join('.') };
+}
@@ -0,0 +1,219 @@
+import { exec } from 'child_process';
+import { promises as fs } from 'fs';
+import { promisify } from 'util';
+import { Bind9Backend, Bind9Config, bind9ConfigFromEnv, readFileIfExists } from './bind9';
+import { DriftCheck, ServerConfig, ZoneSnapshot } from './dnsBackend';
+import { RRSet, RRSetDiff, canonicalContent, diffRRSets, zoneRRSets } from './rrset';
+import { soaContent } from './zoneRenderer';
+
+const execAsync = promisify(exec);
+
+export interface NsupdateConfig {
+  nsupdatePath: string;
+  digPath: string;
+  server: string;
+  port: number;
+  keyName: string;
+  keyFile: string;
+}
+
+// Read lazily so values loaded by dotenv at startup are picked up
+export function nsupdateConfigFromEnv(): NsupdateConfig {
+  return {
+    nsupdatePath: process.env.BIND9_NSUPDATE_PATH || 'nsupdate',
+    digPath: process.env.BIND9_DIG_PATH || 'dig',
+    server: process.env.BIND9_UPDATE_SERVER || '127.0.0.1',
+    port: Number(process.env.BIND9_UPDATE_PORT || 53),
+    keyName: process.env.BIND9_UPDATE_KEY_NAME || 'dns-manager',
+    keyFile: process.env.BIND9_UPDATE_KEY_FILE || '/etc/bind/dns-manager.key'
+  };
+}
+
+// nsupdate commands turning `before` into `after`, record by record so the
+// apex NS set is never emptied on the way
+function updateCommands({ before, after }: RRSetDiff) {
+  const { name, type } = (after || before) as RRSet;
+  const current = before?.contents || [];
+  const desired = after?.contents || [];
+  const ttlChanged = before && after && before.ttl !== after.ttl;
+  const sameContent = (a: string, b: string) => canonicalContent(type, a) === canonicalContent(type, b);
+  const commands: string[] = [];
+
+  for (const content of current) {
+    if (!desired.some(d => sameContent(d, content))) {
+      commands.push(`update delete ${name} ${type} ${content}`);
+    }
+  }
+  for (const content of desired) {
+    if (ttlChanged || !current.some(c => sameContent(c, content))) {
+      commands.push(`update add ${name} ${after?.ttl} ${type} ${content}`);
+    }
+  }
+
+  return commands;
+}
+
+// A change checked by applyZone() and sent by reload(): the RRsets to update,
+// or null when the zone could not be transferred and its file is rewritten
+interface QueuedChange {
+  zone: ZoneSnapshot;
+  diffs: RRSetDiff[] | null;
+}
+
+// BIND driver that publishes record changes as TSIG-signed RFC 2136 dynamic
+// updates instead of rewriting zone files. New zones are still written as
+// files; afterwards BIND owns the file and its journal, and the database stays
+// the source of truth: every sync compares it against an AXFR of the zone.
+// Like zone files, updates are only sent once every zone of the sync has
+// passed its check.
+export class NsupdateBackend extends Bind9Backend {
+  readonly name: string = 'nsupdate';
+  // Updates go to the zone as named serves it to the update server's address
+  readonly supportsViews: boolean = false;
+
+  private queued = new Map<string, QueuedChange>();
+
+  constructor(config: Bind9Config = bind9ConfigFromEnv(), private updates: NsupdateConfig = nsupdateConfigFromEnv()) {
+    super(config);
+  }
+
+  async applyZone(zone: ZoneSnapshot) {
+    this.queued.delete(zone.name);
+    try {
+      return await super.applyZone(zone);
+    } catch (error) {
+      this.queued.clear();
+      throw error;
+    }
+  }
+
+  async removeZone(zoneName: string) {
+    await super.removeZone(zoneName);
+    await fs.rm(`${this.zoneFilePath(zoneName)}.jnl`, { force: true });
+  }
+
+  // Changes queued by a sync that failed before reaching reload are dropped
+  async reload(server: ServerConfig, changed: string[]) {
+    for (const zoneName of this.queued.keys()) {
+      if (!changed.includes(zoneName)) this.queued.delete(zoneName);
+    }
+    try {
+      await super.reload(server, changed);
+    } finally {
+      this.queued.clear();
+    }
+  }
+
+  protected async prepareZone(zone: ZoneSnapshot) {
+    // New zones are loaded from their file by the reconfig in reload()
+    if (await readFileIfExists(this.zoneFilePath(zone.name)) === null) {
+      return super.prepareZone(zone);
+    }
+
+    const current = await this.transferZone(zone.name);
+    if (!current) {
+      console.warn(`Zone ${zone.name} could not be transferred, rewriting its file`);
+      await this.checkZone(zone);
+      this.queued.set(zone.name, { zone, diffs: null });
+      return true;
+    }
+
+    const diffs = diffRRSets(zoneRRSets(zone), current, { ignoreSerial: true });
+    if (diffs.length === 0) return false;
+
+    await this.checkZone(zone);
+    this.queued.set(zone.name, { zone, diffs });
+    return true;
+  }
+
+  // Queued changes are live once sent. New zones are loaded by the reconfig
+  // and dynamic zones refuse `rndc reload <zone>`, so nothing is reloaded.
+  protected async reloadZones(zoneNames: string[]) {
+    for (const zoneName of zoneNames) {
+      const change = this.queued.get(zoneName);
+      if (!change) continue;
+      if (change.diffs) {
+        await this.sendUpdate(change.zone, change.diffs);
+        console.log(`Sent dynamic update for ${zoneName}: ${change.diffs.length} RRsets (serial ${change.zone.serial})`);
+      } else {
+        await this.rewriteZone(change.zone);
+      }
+    }
+  }
+
+  async detectDrift(zone: ZoneSnapshot) {
+    const current = await this.transferZone(zone.name);
+    if (!current) return null;
+    return diffRRSets(zoneRRSets(zone), current, { ignoreSerial: true });
+  }
+
+  // BIND owns the file of a dynamic zone and keeps recent updates in its
+  // journal, so the journal is flushed into the file first and the file is
+  // compared by its RRsets. named sets its own serial when an update carries
+  // an older one.
+  async checkZoneFile(zone: ZoneSnapshot): Promise<DriftCheck> {
+    const file = this.zoneFilePath(zone.name);
+    if (await readFileIfExists(file) === null) return { status: 'missing', diffs: [], error: `${file} does not exist` };
+    try {
+      await execAsync(`${this.config.rndcPath} sync ${zone.name}`);
+    } catch (error) {
+      const { stderr, message } = error as { stderr?: string; message: string };
+      return { status: 'unavailable', diffs: [], error: `rndc sync ${zone.name} failed: ${(stderr || message).trim()}` };
+    }
+    return this.compareZoneFile(zone, file, { ignoreSerial: true });
+  }
+
+  protected allowUpdate() {
+    return `key "${this.updates.keyName}";`;
+  }
+
+  protected transferKeys() {
+    return [this.updates.keyName];
+  }
+
+  // Transfers go to the update server, signed with the update key
+  protected transferCommand(zoneName: string) {
+    const { digPath, keyFile, server, port } = this.updates;
+    return `${digPath} -k ${keyFile} @${server} -p ${port} AXFR ${zoneName}. +nocmd +nostats +nocomments`;
+  }
+
+  // Same validation as a file rewrite, without activating the file
+  private async checkZone(zone: ZoneSnapshot) {
+    const staged = await this.stage(this.zoneFilePath(zone.name), this.renderZone(zone), zone.name,
+      file => `${this.config.checkzonePath} ${zone.name} ${file}`);
+    await fs.rm(staged.staging, { force: true });
+  }
+
+  // Dynamic zones must be frozen before their file is replaced; thaw reloads it
+  private async rewriteZone(zone: ZoneSnapshot) {
+    await this.rndc(`freeze ${zone.name}`).catch(error => console.warn(`rndc freeze ${zone.name}:`, error.message));
+    try {
+      return await this.writeZone(zone);
+    } finally {
+      await this.rndc(`thaw ${zone.name}`).catch(error => console.warn(`rndc thaw ${zone.name}:`, error.message));
+    }
+  }
+
+  private async sendUpdate(zone: ZoneSnapshot, diffs: RRSetDiff[]) {
+    const commands = [
+      `server ${this.updates.server} ${this.updates.port}`,
+      `zone ${zone.name}.`,
+      ...diffs.filter(diff => (diff.after || diff.before)?.type !== 'SOA').flatMap(updateCommands),
+      // BIND only takes the serial if it is newer, otherwise it increments its own
+      `update add ${zone.name}. ${zone.soa.defaultTtl} SOA ${soaContent(zone.soa, zone.serial)}`,
+      'send',
+      ''
+    ];
+
+    const scriptPath = `${this.zoneFilePath(zone.name)}.nsupdate`;
+    await fs.writeFile(scriptPath, commands.join('\n'));
+    try {
+      await execAsync(`${this.updates.nsupdatePath} -k ${this.updates.keyFile} ${scriptPath}`);
+    } catch (error) {
+      const { stdout, stderr, message } = error as { stdout?: string; stderr?: string; message: string };
+      throw new Error(`Dynamic update of ${zone.name} failed: ${`${stdout || ''}${stderr || ''}`.trim() || message}`);
+    } finally {
+      await fs.rm(scriptPath, { force: true });
+    }
+  }
+}
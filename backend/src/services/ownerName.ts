@@ -0,0 +1,74 @@
+import { toASCIIName } from './idn';
+
+// Owner names are stored relative to their zone: lower case, without the
+// trailing dot, '@' for the apex (e.g. 'www', 'host.sub', '*.api'). Input may
+// be relative or fully qualified; a name ending in the zone name is taken as
+// fully qualified, with or without the trailing dot. Unicode labels are
+// stored as A-labels.
+
+const LABEL_REGEX = /^[a-zA-Z0-9_]([a-zA-Z0-9_-]{0,61}[a-zA-Z0-9_])?$/;
+
+// Why `name` is not a valid domain name, or null. A leading '*' label is
+// accepted when `wildcard` is set.
+export function hostnameError(name: string, wildcard = false) {
+  const bare = name.endsWith('.') ? name.slice(0, -1) : name;
+  if (!bare) return 'must not be empty';
+  if (bare.length > 253) return 'must be at most 253 characters';
+  const labels = bare.split('.');
+  for (const [index, label] of labels.entries()) {
+    if (label.length === 0) return 'must not contain empty labels';
+    if (label === '*' && wildcard && index === 0) continue;
+    if (label === '*') return '"*" is only allowed as the first label';
+    if (label.length > 63) return `label "${label.slice(0, 20)}…" is longer than 63 characters`;
+    if (!LABEL_REGEX.test(label)) return `label "${label}" may only contain letters, digits, "-" and "_" and must not start or end with "-"`;
+  }
+  return null;
+}
+
+function zoneApex(zoneName: string) {
+  return zoneName.toLowerCase().replace(/\.$/, '');
+}
+
+// Canonical stored form of an owner name entered for the zone
+export function normalizeOwner(name: string, zoneName: string): { name?: string; error?: string } {
+  const ascii = toASCIIName(name.trim());
+  if (ascii.error) return { error: `Name ${ascii.error}` };
+  const input = ascii.name!;
+  const zone = zoneApex(zoneName);
+  if (input === '' || input === '@') return { name: '@' };
+
+  const absolute = input.endsWith('.');
+  const bare = absolute ? input.slice(0, -1) : input;
+  let owner: string;
+  if (bare === zone) return { name: '@' };
+  if (bare.endsWith(`.${zone}`)) owner = bare.slice(0, -(zone.length + 1));
+  else if (absolute) return { error: `${name.trim()} is outside ${zoneName}` };
+  else owner = bare;
+
+  const error = hostnameError(`${owner}.${zone}`, true);
+  return error ? { error: `Name ${error}` } : { name: owner };
+}
+
+// Canonical form of a zone name: A-labels, lower case, no trailing dot
+export function normalizeZoneName(name: string): { name?: string; error?: string } {
+  const ascii = toASCIIName(name.trim().replace(/\.$/, ''));
+  if (ascii.error) return { error: `Domain ${ascii.error}` };
+  if (!ascii.name || ascii.name === '@') return { error: 'Domain name is required' };
+  const error = hostnameError(ascii.name);
+  return error ? { error: `Domain name ${error}` } : { name: ascii.name };
+}
+
+// Fully qualified form of a stored owner name, with the trailing dot
+export function absoluteOwner(name: string, zoneName: string) {
+  const zone = zoneApex(zoneName);
+  if (name === '@') return `${zone}.`;
+  if (name.endsWith('.')) return name.toLowerCase();
+  return `${name.toLowerCase()}.${zone}.`;
+}
+
+// Owner as written in the zone file, or null when a stored absolute name is
+// outside the zone
+export function zoneFileOwner(name: string, zoneName: string) {
+  if (!name.endsWith('.')) return name ? name.toLowerCase() : '@';
+  return normalizeOwner(name, zoneName).name ?? null;
+}
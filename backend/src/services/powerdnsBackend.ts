@@ -0,0 +1,160 @@
+import { DnsBackend, ServerConfig, ZoneSnapshot, ZoneValidationError } from './dnsBackend';
+import { renderZoneFile } from './zoneRenderer';
+import { RRSet, diffRRSets, zoneRRSets } from './rrset';
+
+export interface PowerDnsConfig {
+  apiUrl: string;
+  apiKey: string;
+  serverId: string;
+  zoneKind: string;
+}
+
+// Read lazily so values loaded by dotenv at startup are picked up
+export function powerDnsConfigFromEnv(): PowerDnsConfig {
+  return {
+    apiUrl: (process.env.PDNS_API_URL || 'http://127.0.0.1:8081').replace(/\/$/, ''),
+    apiKey: process.env.PDNS_API_KEY || '',
+    serverId: process.env.PDNS_SERVER_ID || 'localhost',
+    zoneKind: process.env.PDNS_ZONE_KIND || 'Native'
+  };
+}
+
+// Zone kinds that notify their secondaries; PowerDNS 4.5 renamed Master to
+// Primary and accepts both
+const PRIMARY_KINDS = ['Master', 'Primary'];
+
+// RRset in the shape the PowerDNS API uses
+interface PowerDnsRRSet {
+  name: string;
+  type: string;
+  ttl: number;
+  changetype?: 'REPLACE' | 'DELETE';
+  records: Array<{ content: string; disabled: boolean }>;
+}
+
+interface PowerDnsZone {
+  id: string;
+  name: string;
+  rrsets: PowerDnsRRSet[];
+}
+
+function toPowerDns(rrset: RRSet): PowerDnsRRSet {
+  return {
+    name: rrset.name,
+    type: rrset.type,
+    ttl: rrset.ttl,
+    records: rrset.contents.map(content => ({ content, disabled: false }))
+  };
+}
+
+function fromPowerDns(rrset: PowerDnsRRSet): RRSet {
+  return {
+    name: rrset.name,
+    type: rrset.type,
+    ttl: rrset.ttl,
+    contents: rrset.records.filter(record => !record.disabled).map(record => record.content)
+  };
+}
+
+// PowerDNS Authoritative driver: pushes zones and records to the HTTP API
+// instead of writing zone files. Changes are sent as RRset PATCHes so only
+// the owner/type pairs that differ are touched.
+export class PowerDnsBackend implements DnsBackend {
+  readonly name = 'powerdns';
+
+  constructor(private config: PowerDnsConfig = powerDnsConfigFromEnv()) {}
+
+  renderZone(zone: ZoneSnapshot) {
+    return renderZoneFile(zone);
+  }
+
+  async applyZone(zone: ZoneSnapshot) {
+    const desired = zoneRRSets(zone);
+    const existing = await this.getZone(zone.name);
+
+    if (!existing) {
+      await this.request(zone.name, 'POST', '/zones', {
+        name: `${zone.name}.`,
+        kind: this.config.zoneKind,
+        nameservers: [],
+        soa_edit_api: '',
+        rrsets: desired.map(toPowerDns)
+      });
+      console.log(`Created PowerDNS zone ${zone.name} (serial ${zone.serial})`);
+      return true;
+    }
+
+    const changes: PowerDnsRRSet[] = diffRRSets(desired, existing.rrsets.map(fromPowerDns)).map(({ before, after }) => after
+      ? { ...toPowerDns(after), changetype: 'REPLACE' }
+      : { ...toPowerDns(before as RRSet), records: [], changetype: 'DELETE' });
+
+    if (changes.length === 0) return false;
+
+    await this.request(zone.name, 'PATCH', `/zones/${this.zoneId(zone.name)}`, { rrsets: changes });
+    console.log(`Patched ${changes.length} RRsets in PowerDNS zone ${zone.name} (serial ${zone.serial})`);
+    return true;
+  }
+
+  async removeZone(zoneName: string) {
+    const res = await this.send('DELETE', `/zones/${this.zoneId(zoneName)}`);
+    if (!res.ok && res.status !== 404) {
+      throw new Error(`PowerDNS DELETE ${zoneName} failed: ${await this.errorMessage(res)}`);
+    }
+    console.log(`Removed PowerDNS zone ${zoneName}`);
+  }
+
+  // PowerDNS serves changes immediately; for primary zones we only need to
+  // tell the secondaries about them.
+  async reload(server: ServerConfig, changed: string[]) {
+    if (!PRIMARY_KINDS.includes(this.config.zoneKind)) return;
+    for (const zoneName of changed) {
+      await this.request(zoneName, 'PUT', `/zones/${this.zoneId(zoneName)}/notify`);
+    }
+  }
+
+  private zoneId(zoneName: string) {
+    return encodeURIComponent(`${zoneName}.`);
+  }
+
+  private async getZone(zoneName: string): Promise<PowerDnsZone | null> {
+    const res = await this.send('GET', `/zones/${this.zoneId(zoneName)}`);
+    if (res.status === 404 || res.status === 422) return null;
+    if (!res.ok) {
+      throw new Error(`PowerDNS GET ${zoneName} failed: ${await this.errorMessage(res)}`);
+    }
+    return await res.json() as PowerDnsZone;
+  }
+
+  // Sends a change and maps API rejections to ZoneValidationError
+  private async request(zoneName: string, method: string, path: string, body?: unknown) {
+    const res = await this.send(method, path, body);
+    if (res.status === 400 || res.status === 422) {
+      throw new ZoneValidationError(zoneName, await this.errorMessage(res));
+    }
+    if (!res.ok) {
+      throw new Error(`PowerDNS ${method} ${path} failed: ${await this.errorMessage(res)}`);
+    }
+    return res;
+  }
+
+  private async send(method: string, path: string, body?: unknown) {
+    return fetch(`${this.config.apiUrl}/api/v1/servers/${this.config.serverId}${path}`, {
+      method,
+      headers: {
+        'X-API-Key': this.config.apiKey,
+        'Content-Type': 'application/json',
+        Accept: 'application/json'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+  }
+
+  private async errorMessage(res: Response) {
+    const text = await res.text();
+    try {
+      return JSON.parse(text).error || text;
+    } catch {
+      return text || res.statusText;
+    }
+  }
+}
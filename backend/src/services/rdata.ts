@@ -0,0 +1,227 @@
+import { FieldErrors } from './recordValidation';
+
+// Structured RDATA of the types that have more than a single value, keyed by
+// field name. Stored in DNSRecord.rdata; DNSRecord.value holds the text form.
+export type RData = Record<string, string | number>;
+
+// 'string' fields are quoted in the text form, 'word' fields are not
+type FieldKind = 'int' | 'word' | 'string' | 'hex' | 'name' | 'params';
+
+interface RDataField {
+  key: string;
+  label: string;
+  kind: FieldKind;
+  min?: number;
+  max?: number;
+  // Empty values are allowed
+  optional?: boolean;
+}
+
+interface RDataType {
+  fields: RDataField[];
+  // Rules across fields; `owner` is relative to the zone ('@' for the apex)
+  check?(data: RData, errors: FieldErrors, owner: string): void;
+}
+
+const uint8 = (key: string, label: string, max = 255): RDataField => ({ key, label, kind: 'int', min: 0, max });
+const uint16 = (key: string, label: string): RDataField => ({ key, label, kind: 'int', min: 0, max: 65535 });
+
+// Digest and fingerprint lengths in hex digits, by type number
+const DS_DIGEST_LENGTHS: Record<number, number> = { 1: 40, 2: 64, 4: 96 };
+const TLSA_DIGEST_LENGTHS: Record<number, number> = { 1: 64, 2: 128 };
+const SSHFP_DIGEST_LENGTHS: Record<number, number> = { 1: 40, 2: 64 };
+
+const SVC_PARAM_KEYS = ['mandatory', 'alpn', 'no-default-alpn', 'port', 'ipv4hint', 'ech', 'ipv6hint', 'dohpath', 'ohttp'];
+
+function checkDigest(data: RData, errors: FieldErrors, key: string, typeKey: string, lengths: Record<number, number>) {
+  const expected = lengths[data[typeKey] as number];
+  const length = String(data[key]).length;
+  if (expected && length !== expected && !errors[`rdata.${key}`]) {
+    errors[`rdata.${key}`] = `Must be ${expected} hex digits for this digest type, got ${length}`;
+  }
+}
+
+// Owner of a service-bound record such as TLSA: _port._proto[.host]
+function checkServiceOwner(owner: string, errors: FieldErrors, type: string) {
+  const labels = owner.split('.');
+  if (labels.length < 2 || !/^_\d+$/.test(labels[0]) || !labels[1].startsWith('_')) {
+    errors.name = `${type} names must start with _port._proto, e.g. _443._tcp`;
+  }
+}
+
+function checkSvcb(data: RData, errors: FieldErrors) {
+  const params = String(data.params);
+  if (data.priority === 0 && params) {
+    errors['rdata.params'] = 'Alias records (priority 0) cannot have parameters';
+    return;
+  }
+
+  const seen = new Set<string>();
+  for (const param of params ? params.split(' ') : []) {
+    const [key] = param.split('=');
+    if (!SVC_PARAM_KEYS.includes(key) && !/^key\d{1,5}$/.test(key)) {
+      errors['rdata.params'] = `Unknown parameter "${key}"`;
+      return;
+    }
+    if (seen.has(key)) {
+      errors['rdata.params'] = `Parameter "${key}" is given twice`;
+      return;
+    }
+    seen.add(key);
+  }
+}
+
+export const RDATA_TYPES: Record<string, RDataType> = {
+  CAA: {
+    fields: [uint8('flags', 'Flags'), { key: 'tag', label: 'Tag', kind: 'word' }, { key: 'value', label: 'Value', kind: 'string', optional: true }],
+    check(data, errors) {
+      const tag = String(data.tag);
+      if (!/^[a-z0-9]{1,15}$/.test(tag)) {
+        errors['rdata.tag'] = 'Tag must be 1-15 lower case letters or digits (issue, issuewild, iodef)';
+      } else if (tag === 'iodef' && !/^(mailto:|https?:\/\/)/.test(String(data.value))) {
+        errors['rdata.value'] = 'iodef needs a mailto: or http(s):// URL';
+      } else if ((tag === 'issue' || tag === 'issuewild') && /\s/.test(String(data.value).split(';')[0].trim())) {
+        errors['rdata.value'] = 'Issuer must be a domain name such as letsencrypt.org';
+      }
+    }
+  },
+  TLSA: {
+    fields: [uint8('usage', 'Usage', 3), uint8('selector', 'Selector', 1), uint8('matchingType', 'Matching type', 2), { key: 'certificate', label: 'Certificate data', kind: 'hex' }],
+    check(data, errors, owner) {
+      checkServiceOwner(owner, errors, 'TLSA');
+      checkDigest(data, errors, 'certificate', 'matchingType', TLSA_DIGEST_LENGTHS);
+    }
+  },
+  SSHFP: {
+    fields: [uint8('algorithm', 'Algorithm'), uint8('fingerprintType', 'Fingerprint type'), { key: 'fingerprint', label: 'Fingerprint', kind: 'hex' }],
+    check(data, errors) {
+      checkDigest(data, errors, 'fingerprint', 'fingerprintType', SSHFP_DIGEST_LENGTHS);
+    }
+  },
+  NAPTR: {
+    fields: [
+      uint16('order', 'Order'),
+      uint16('preference', 'Preference'),
+      { key: 'flags', label: 'Flags', kind: 'string', optional: true },
+      { key: 'service', label: 'Service', kind: 'string', optional: true },
+      { key: 'regexp', label: 'Regexp', kind: 'string', optional: true },
+      { key: 'replacement', label: 'Replacement', kind: 'name' }
+    ],
+    check(data, errors) {
+      if (!/^[a-zA-Z0-9]*$/.test(String(data.flags))) errors['rdata.flags'] = 'Flags may only contain letters and digits';
+      // RFC 3403: a rule rewrites with either the regexp or the replacement
+      if (data.regexp && data.replacement !== '.') errors['rdata.replacement'] = 'Replacement must be "." when a regexp is set';
+    }
+  },
+  DS: {
+    fields: [uint16('keyTag', 'Key tag'), uint8('algorithm', 'Algorithm'), uint8('digestType', 'Digest type'), { key: 'digest', label: 'Digest', kind: 'hex' }],
+    check(data, errors, owner) {
+      if (owner === '@') errors.name = 'DS records belong to a delegated child zone, not the apex';
+      checkDigest(data, errors, 'digest', 'digestType', DS_DIGEST_LENGTHS);
+    }
+  },
+  HTTPS: {
+    fields: [uint16('priority', 'Priority'), { key: 'target', label: 'Target', kind: 'name' }, { key: 'params', label: 'Parameters', kind: 'params', optional: true }],
+    check: checkSvcb
+  },
+  SVCB: {
+    fields: [uint16('priority', 'Priority'), { key: 'target', label: 'Target', kind: 'name' }, { key: 'params', label: 'Parameters', kind: 'params', optional: true }],
+    check: checkSvcb
+  }
+};
+
+// Presentation-format tokens; quoted strings keep their quotes so the field
+// parser can tell them apart
+function tokenize(text: string) {
+  return [...text.matchAll(/"(?:[^"\\]|\\.)*"|\S+/g)].map(match => match[0]);
+}
+
+function unquote(token: string) {
+  return token.startsWith('"') && token.endsWith('"') && token.length > 1
+    ? token.slice(1, -1).replace(/\\(.)/g, '$1')
+    : token;
+}
+
+// Maps the text form of the RDATA onto the type's fields. The last hex or
+// params field takes the remaining tokens, as zone files may split them.
+function fromPresentation(type: RDataType, text: string): Record<string, unknown> {
+  const tokens = tokenize(text.replace(/=\s+"/g, '="'));
+  const input: Record<string, unknown> = {};
+  type.fields.forEach((field, index) => {
+    const last = index === type.fields.length - 1;
+    if (last && field.kind === 'hex') input[field.key] = tokens.slice(index).join('');
+    else if (last && field.kind === 'params') input[field.key] = tokens.slice(index).join(' ');
+    else input[field.key] = tokens[index] !== undefined ? unquote(tokens[index]) : '';
+  });
+  if (tokens.length > type.fields.length && !['hex', 'params'].includes(type.fields[type.fields.length - 1].kind)) {
+    input.extra = tokens.slice(type.fields.length).join(' ');
+  }
+  return input;
+}
+
+// Reads structured RDATA for `recordType`, given either as an object of
+// fields or as its text form. Errors are keyed `rdata.<field>`.
+export function readRData(recordType: string, input: unknown, owner: string): { data?: RData; errors: FieldErrors } {
+  const type = RDATA_TYPES[recordType];
+  const errors: FieldErrors = {};
+  const fields = typeof input === 'string'
+    ? fromPresentation(type, input)
+    : (input && typeof input === 'object' ? input as Record<string, unknown> : {});
+  if (typeof fields.extra === 'string') errors.value = `Unexpected data "${fields.extra}"`;
+
+  const data: RData = {};
+  for (const field of type.fields) {
+    const raw = fields[field.key];
+    const text = raw === undefined || raw === null ? '' : String(raw).trim();
+    const errorKey = `rdata.${field.key}` as const;
+
+    if (!text && !field.optional) {
+      errors[errorKey] = `${field.label} is required`;
+      continue;
+    }
+
+    switch (field.kind) {
+      case 'int': {
+        const number = Number(text);
+        if (!/^\d+$/.test(text) || number < field.min! || number > field.max!) {
+          errors[errorKey] = `${field.label} must be a whole number between ${field.min} and ${field.max}`;
+        }
+        data[field.key] = number;
+        break;
+      }
+      case 'hex': {
+        const hex = text.replace(/\s+/g, '').toUpperCase();
+        if (!/^([0-9A-F]{2})+$/.test(hex)) errors[errorKey] = `${field.label} must be an even number of hex digits`;
+        data[field.key] = hex;
+        break;
+      }
+      case 'name':
+        if (text !== '.' && !/^([a-zA-Z0-9_]([a-zA-Z0-9_-]{0,61}[a-zA-Z0-9_])?\.)*[a-zA-Z0-9_]([a-zA-Z0-9_-]{0,61}[a-zA-Z0-9_])?\.?$/.test(text)) {
+          errors[errorKey] = `${field.label} must be a host name, or "."`;
+        }
+        data[field.key] = text.toLowerCase();
+        break;
+      case 'params':
+        data[field.key] = text.replace(/=\s+/g, '=').split(/\s+/).filter(Boolean).join(' ');
+        break;
+      default:
+        data[field.key] = text;
+    }
+  }
+
+  if (Object.keys(errors).length) return { errors };
+  type.check?.(data, errors, owner);
+  return Object.keys(errors).length ? { errors } : { data, errors };
+}
+
+function quote(text: string) {
+  return `"${text.replace(/(["\\])/g, '\\$1')}"`;
+}
+
+// Text form of structured RDATA, as it goes into a zone file
+export function formatRData(recordType: string, data: RData) {
+  return RDATA_TYPES[recordType].fields
+    .map(field => field.kind === 'string' ? quote(String(data[field.key] ?? '')) : String(data[field.key] ?? ''))
+    .filter(part => part !== '')
+    .join(' ');
+}
@@ -0,0 +1,217 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ServerView, ZoneRecord, ZoneSnapshot } from './dnsBackend';
+import { RecordInput, validateRecord, validateRecordUpdate } from './recordValidation';
+import { AUTO_PTR_TYPES, MANAGED_PTR, ptrPlacement, refreshPtr } from './reverseZone';
+import { syncZonesOrRevert } from './syncQueue';
+import { unifiedDiff } from './unifiedDiff';
+import { resolveViews } from './views';
+import { DEFAULT_RECORD_TTL, recordSetConflicts } from './zoneLint';
+import { planZoneSerial } from './zoneSerial';
+import { getDnsBackend, zoneVariants } from './zoneSync';
+
+const prisma = new PrismaClient();
+
+const ACTIONS = ['create', 'update', 'delete'] as const;
+
+export type RecordChangeAction = typeof ACTIONS[number];
+
+type StoredRecord = Prisma.DNSRecordGetPayload<{
+  include: { views: { select: { id: true; name: true } }; ptrRecord: { select: { domainId: true } } }
+}>;
+
+// A change that passed validation. Creates get the id `new:<index>` until
+// they are stored; `data` is null for deletes.
+export interface PlannedChange {
+  index: number;
+  action: RecordChangeAction;
+  id: string;
+  data: RecordInput | null;
+  views: Array<{ id: string; name: string }>;
+  autoPtr: boolean;
+  current: StoredRecord | null;
+}
+
+// Why change number `index` cannot be made, with field errors for the record
+// form when there are any
+export interface ChangeError {
+  index: number;
+  error: string;
+  fields?: Partial<Record<string, string>>;
+}
+
+// Validates a list of record changes for a domain, each like
+// { action: 'create', record: { name, type, value, ... } },
+// { action: 'update', id, record: { ...fields to change } } or
+// { action: 'delete', id }. The record bodies take the same fields as
+// POST/PUT /dns-records, `viewIds` and `autoPtr` included. Conflicts between
+// the resulting records are checked separately by changeConflicts().
+export async function planRecordChanges(domain: { id: string; name: string; userId: string }, input: unknown[]) {
+  const stored = await prisma.dNSRecord.findMany({
+    where: { domainId: domain.id },
+    include: { views: { select: { id: true, name: true } }, ptrRecord: { select: { domainId: true } } }
+  });
+  const byId = new Map(stored.map(record => [record.id, record]));
+  const touched = new Set<string>();
+  const changes: PlannedChange[] = [];
+  const errors: ChangeError[] = [];
+
+  for (const [index, item] of input.entries()) {
+    const change = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const action = ACTIONS.find(name => name === change.action);
+    const body = (change.record && typeof change.record === 'object' ? change.record : {}) as Record<string, unknown>;
+    const fail = (error: string, fields?: Partial<Record<string, string>>) => errors.push({ index, error, ...(fields ? { fields } : {}) });
+
+    if (!action) {
+      fail(`Unknown action ${String(change.action ?? '')}; use create, update or delete`);
+      continue;
+    }
+
+    let current: StoredRecord | null = null;
+    if (action !== 'create') {
+      current = byId.get(String(change.id ?? '')) ?? null;
+      if (!current) {
+        fail('Unknown record');
+        continue;
+      }
+      if (current.ptrSourceId) {
+        fail(MANAGED_PTR);
+        continue;
+      }
+      if (touched.has(current.id)) {
+        fail('The record is changed more than once');
+        continue;
+      }
+      touched.add(current.id);
+      if (action === 'delete') {
+        changes.push({ index, action, id: current.id, data: null, views: current.views, autoPtr: false, current });
+        continue;
+      }
+    }
+
+    const { data, errors: fields } = current ? validateRecordUpdate(current, body, domain.name) : validateRecord(body, domain.name);
+    if (!data) {
+      fail('Invalid DNS record', fields);
+      continue;
+    }
+    const views = current && body.viewIds === undefined ? current.views : await resolveViews(body.viewIds);
+    if (!views) {
+      fail('Invalid DNS record', { viewIds: 'Unknown view' });
+      continue;
+    }
+    const autoPtr = AUTO_PTR_TYPES.includes(data.type) && (current && body.autoPtr === undefined ? current.autoPtr : body.autoPtr === true);
+    if (autoPtr) {
+      const { error } = await ptrPlacement({ ...data, id: current?.id }, domain);
+      if (error) {
+        fail('Invalid DNS record', { autoPtr: error });
+        continue;
+      }
+    }
+    changes.push({ index, action, id: current?.id ?? `new:${index}`, data, views, autoPtr, current });
+  }
+
+  return { changes, errors };
+}
+
+function toZoneRecord(change: PlannedChange, base?: ZoneRecord): ZoneRecord {
+  const data = change.data!;
+  return {
+    ...base,
+    ...data,
+    id: change.id,
+    ttl: data.ttl ?? DEFAULT_RECORD_TTL,
+    rdata: data.rdata ?? null,
+    views: change.views.map(view => view.name)
+  };
+}
+
+// The zone's records once the changes are made
+export function changedRecords(records: ZoneRecord[], changes: PlannedChange[]): ZoneRecord[] {
+  const replaced = new Map(changes.filter(change => change.action !== 'create').map(change => [change.id, change]));
+  const result: ZoneRecord[] = [];
+  for (const record of records) {
+    const change = replaced.get(record.id);
+    if (!change) result.push(record);
+    else if (change.data) result.push(toZoneRecord(change, record));
+  }
+  for (const change of changes) {
+    if (change.action === 'create') result.push(toZoneRecord(change));
+  }
+  return result;
+}
+
+// Rules the created and updated records break in the resulting zone
+export function changeConflicts(zoneName: string, records: ZoneRecord[], changes: PlannedChange[]): ChangeError[] {
+  const changed = changes.filter(change => change.data);
+  const conflicts = recordSetConflicts(zoneName, records, changed.map(change => change.id));
+  return changed
+    .filter(change => conflicts[change.id])
+    .map(change => ({ index: change.index, error: 'DNS record conflicts with existing records', fields: conflicts[change.id] }));
+}
+
+export interface ZonePreview {
+  // Serial the changed zone would be published with
+  serial: number;
+  // One file per view (view null without views); `error` is the backend's
+  // complaint about the new file
+  files: Array<{ view: string | null; diff: string; error: string | null }>;
+}
+
+// Renders the zone before and after a change the way syncZones publishes it
+// and diffs the files, without publishing anything
+export async function previewZone(zone: ZoneSnapshot, records: ZoneRecord[], views: ServerView[]): Promise<ZonePreview> {
+  const dns = getDnsBackend();
+  const before = zoneVariants(zone, views);
+  const after = zoneVariants({ ...zone, records }, views);
+  const plan = planZoneSerial(zone, after.map(variant => dns.renderZone({ ...variant, serial: 0 })).join('\n'));
+
+  const files: ZonePreview['files'] = [];
+  for (const [index, variant] of after.entries()) {
+    const next = { ...variant, serial: plan.serial };
+    const file = variant.view ? `${variant.view}/${zone.name}.zone` : `${zone.name}.zone`;
+    files.push({
+      view: variant.view ?? null,
+      diff: unifiedDiff(dns.renderZone(before[index]), dns.renderZone(next), `a/${file}`, `b/${file}`),
+      error: dns.validateZone ? await dns.validateZone(next) : null
+    });
+  }
+  return { serial: plan.serial, files };
+}
+
+// Makes the changes in one transaction, their PTRs included, and publishes
+// the zones they touch with one sync. If the backend rejects the result every
+// change is undone.
+export async function applyRecordChanges(domain: { id: string }, changes: PlannedChange[]) {
+  const { created, ptrZones } = await prisma.$transaction(async tx => {
+    const created: string[] = [];
+    const ptrZones = new Set<string>();
+    for (const change of changes) {
+      if (change.action === 'delete') {
+        // The kept PTR is deleted with the record
+        await tx.dNSRecord.delete({ where: { id: change.id } });
+        if (change.current?.ptrRecord) ptrZones.add(change.current.ptrRecord.domainId);
+        continue;
+      }
+      const data = { ...change.data!, autoPtr: change.autoPtr, rdata: change.data!.rdata ?? Prisma.DbNull };
+      const views = change.views.map(({ id }) => ({ id }));
+      const record = change.current
+        ? await tx.dNSRecord.update({ where: { id: change.id }, data: { ...data, views: { set: views } } })
+        : await tx.dNSRecord.create({ data: { ...data, domainId: domain.id, views: { connect: views } } });
+      if (!change.current) created.push(record.id);
+      for (const id of await refreshPtr(record.id, tx)) ptrZones.add(id);
+    }
+    return { created, ptrZones };
+  });
+
+  await syncZonesOrRevert(() => prisma.$transaction(async tx => {
+    await tx.dNSRecord.deleteMany({ where: { id: { in: created } } });
+    for (const change of changes) {
+      if (!change.current) continue;
+      const { views, ptrRecord, ...record } = change.current;
+      const data = { ...record, rdata: record.rdata ?? Prisma.DbNull };
+      const viewIds = views.map(({ id }) => ({ id }));
+      if (change.action === 'delete') await tx.dNSRecord.create({ data: { ...data, views: { connect: viewIds } } });
+      else await tx.dNSRecord.update({ where: { id: record.id }, data: { ...data, views: { set: viewIds } } });
+      await refreshPtr(record.id, tx);
+    }
+  }), { domainIds: [domain.id, ...ptrZones] });
+}
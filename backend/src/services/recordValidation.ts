@@ -0,0 +1,216 @@
+import { isIPv4, isIPv6 } from 'net';
+import { RDATA_TYPES, RData, formatRData, readRData } from './rdata';
+import { absoluteOwner, hostnameError, normalizeOwner } from './ownerName';
+import { MAX_TXT_RDATA, txtRDataLength, txtValue } from './txt';
+import { qualifyName } from './soaProfile';
+
+// The DNSRecord fields a client can set
+export interface RecordInput {
+  name: string;
+  type: string;
+  value: string;
+  // Missing means the column default
+  ttl?: number;
+  priority: number | null;
+  weight: number | null;
+  port: number | null;
+  // Structured fields of the types in RDATA_TYPES
+  rdata?: RData;
+}
+
+export type RecordField = keyof RecordInput;
+
+// One message per field, so forms can show it next to the input. Structured
+// RDATA fields are keyed `rdata.<field>`.
+export type FieldErrors = Partial<Record<RecordField | `rdata.${string}`, string>>;
+
+export const MIN_TTL = 60;
+export const MAX_TTL = 604800;
+
+const FIELD_LABELS = { priority: 'Priority', weight: 'Weight', port: 'Port' };
+
+interface TypeRule {
+  // Numeric fields the type uses; the others are cleared
+  fields: Array<'priority' | 'weight' | 'port'>;
+  // The value is a host name, stored fully qualified
+  target?: boolean;
+  check(record: RecordInput, errors: FieldErrors, owner: string): void;
+}
+
+// Target of CNAME, NS, PTR, MX and SRV records
+function checkTarget(value: string, errors: FieldErrors, type: string) {
+  if (isIPv4(value) || isIPv6(value)) {
+    errors.value = `${type} must point to a host name, not an address`;
+    return;
+  }
+  const error = hostnameError(value);
+  if (error) errors.value = `Target ${error}`;
+}
+
+function checkRange(record: RecordInput, errors: FieldErrors, field: 'priority' | 'weight' | 'port', type: string) {
+  const value = record[field];
+  if (value === null) errors[field] = `${FIELD_LABELS[field]} is required for ${type} records`;
+  else if (value < 0 || value > 65535) errors[field] = `${FIELD_LABELS[field]} must be between 0 and 65535`;
+}
+
+const RULES: Record<string, TypeRule> = {
+  A: {
+    fields: [],
+    check(record, errors) {
+      if (!isIPv4(record.value)) errors.value = 'A records need an IPv4 address such as 192.0.2.1';
+    }
+  },
+  AAAA: {
+    fields: [],
+    check(record, errors) {
+      if (!isIPv6(record.value)) errors.value = 'AAAA records need an IPv6 address such as 2001:db8::1';
+    }
+  },
+  CNAME: {
+    fields: [],
+    target: true,
+    check(record, errors, owner) {
+      if (owner === '@') errors.name = 'CNAME is not allowed at the zone apex';
+      checkTarget(record.value, errors, 'CNAME');
+    }
+  },
+  MX: {
+    fields: ['priority'],
+    target: true,
+    check(record, errors) {
+      checkRange(record, errors, 'priority', 'MX');
+      // "." is a null MX (RFC 7505)
+      if (record.value !== '.') checkTarget(record.value, errors, 'MX');
+    }
+  },
+  TXT: {
+    fields: [],
+    check(record, errors) {
+      // Long values are split into 255-byte strings when rendered
+      if (txtRDataLength(record.value) > MAX_TXT_RDATA) {
+        errors.value = `TXT value is ${Buffer.byteLength(record.value, 'utf8')} bytes, too long for one record`;
+      }
+    }
+  },
+  NS: {
+    fields: [],
+    target: true,
+    check(record, errors, owner) {
+      if (owner === '@') errors.name = 'Apex nameservers are managed in the SOA profile';
+      // A wildcard cannot be delegated (RFC 4592 section 4.2)
+      else if (owner.split('.')[0] === '*') errors.name = 'NS records are not allowed at a wildcard name';
+      checkTarget(record.value, errors, 'NS');
+    }
+  },
+  PTR: {
+    fields: [],
+    target: true,
+    check(record, errors) {
+      checkTarget(record.value, errors, 'PTR');
+    }
+  },
+  SRV: {
+    fields: ['priority', 'weight', 'port'],
+    target: true,
+    check(record, errors, owner) {
+      const labels = owner.split('.');
+      if (labels.length < 2 || !labels[0].startsWith('_') || !labels[1].startsWith('_')) {
+        errors.name = 'SRV names must start with _service._proto, e.g. _sip._tcp';
+      }
+      checkRange(record, errors, 'priority', 'SRV');
+      checkRange(record, errors, 'weight', 'SRV');
+      checkRange(record, errors, 'port', 'SRV');
+      // "." means the service is not available
+      if (record.value !== '.') checkTarget(record.value, errors, 'SRV');
+    }
+  }
+};
+
+export const RECORD_TYPES = [...Object.keys(RULES), ...Object.keys(RDATA_TYPES)];
+
+function toNumber(value: unknown) {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  return Number.isInteger(number) ? number : NaN;
+}
+
+// Validates and normalizes a record body for the given domain. `data` is only
+// set when there are no errors. With `storedValue` the body's value is the
+// one already stored, so a TXT value is taken as the logical string it is.
+export function validateRecord(body: unknown, domainName: string, { storedValue = false } = {}): { data?: RecordInput; errors: FieldErrors } {
+  const errors: FieldErrors = {};
+  const input = (body || {}) as Record<string, unknown>;
+
+  const type = typeof input.type === 'string' ? input.type.trim().toUpperCase() : '';
+  const rule = RULES[type];
+  const structured = RDATA_TYPES[type];
+  if (!type) errors.type = 'Type is required';
+  else if (!rule && !structured) errors.type = `Unsupported record type ${type}`;
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  let owner = '';
+  if (!name) {
+    errors.name = 'Name is required';
+  } else {
+    const normalized = normalizeOwner(name, domainName);
+    if (normalized.error) errors.name = normalized.error;
+    else owner = normalized.name!;
+  }
+
+  const rawValue = typeof input.value === 'string' ? (storedValue ? input.value : input.value.trim()) : '';
+  // TXT is stored as its logical string; only input is unquoted
+  const value = type === 'TXT' && !storedValue ? txtValue(rawValue) : rawValue;
+  // Structured types build their value from the fields
+  if (!value && !structured) errors.value = 'Value is required';
+
+  let ttl: number | undefined;
+  if (input.ttl !== undefined && input.ttl !== null && input.ttl !== '') {
+    ttl = Number(input.ttl);
+    if (!Number.isInteger(ttl) || ttl < MIN_TTL || ttl > MAX_TTL) {
+      errors.ttl = `TTL must be a whole number between ${MIN_TTL} and ${MAX_TTL} seconds`;
+    }
+  }
+
+  const record: RecordInput = { name: owner, type, value, ttl, priority: null, weight: null, port: null };
+  for (const field of rule ? rule.fields : []) {
+    const number = toNumber(input[field]);
+    if (Number.isNaN(number)) errors[field] = `${FIELD_LABELS[field]} must be a whole number`;
+    else record[field] = number;
+  }
+
+  const typeErrors: FieldErrors = {};
+  if (structured) {
+    // Fields from the form, or the text form from API clients and imports
+    const rdata = readRData(type, input.rdata && typeof input.rdata === 'object' ? input.rdata : value, owner || name);
+    Object.assign(typeErrors, rdata.errors);
+    if (rdata.data) {
+      record.rdata = rdata.data;
+      record.value = formatRData(type, rdata.data);
+    }
+  } else if (rule && value) {
+    rule.check(record, typeErrors, owner || name);
+    // Like owners, a target written without the trailing dot is taken as
+    // fully qualified when it has a dot, so the zone file never appends the
+    // zone to it; a single label is a name in the zone
+    if (rule.target && record.value !== '.') record.value = qualifyName(record.value, domainName);
+  }
+  for (const [field, message] of Object.entries(typeErrors) as Array<[keyof FieldErrors, string]>) {
+    if (!errors[field]) errors[field] = message;
+  }
+
+  return Object.keys(errors).length ? { errors } : { data: record, errors };
+}
+
+// Validates an update of a stored record. Fields left out of the body keep
+// their current value; a new text value replaces the structured fields. The
+// stored owner goes in fully qualified so it is not shortened again.
+export function validateRecordUpdate(current: { name: string; rdata?: unknown } & Record<string, unknown>, body: unknown, domainName: string) {
+  const { rdata, ...fields } = current;
+  const input = (body || {}) as Record<string, unknown>;
+  return validateRecord({
+    ...fields,
+    name: absoluteOwner(current.name, domainName),
+    ...(input.value === undefined ? { rdata } : {}),
+    ...input
+  }, domainName, { storedValue: input.value === undefined });
+}
@@ -0,0 +1,228 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { isIP } from 'net';
+import { ZoneRecord } from './dnsBackend';
+import { absoluteOwner } from './ownerName';
+import { SOAConfig, qualifyName } from './soaProfile';
+
+const prisma = new PrismaClient();
+
+// The client PTRs are read and written with, a transaction's when they change
+// together with their records
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Reverse zones are the in-addr.arpa (IPv4) and ip6.arpa (IPv6) domains. An
+// RFC 2317 classless zone for a range smaller than a /24 is named
+// `<first address>-<prefix>` under its /24, e.g. 64-26.2.0.192.in-addr.arpa.
+
+const IPV4_SUFFIX = 'in-addr.arpa';
+const IPV6_SUFFIX = 'ip6.arpa';
+const CLASSLESS_LABEL = /^(\d{1,3})-(\d{1,2})$/;
+
+// The record types a PTR is kept for
+export const AUTO_PTR_TYPES = ['A', 'AAAA'];
+
+export const MANAGED_PTR = 'This PTR is kept in sync with its A/AAAA record; change that record instead';
+
+export function isReverseZone(zoneName: string) {
+  return zoneName.endsWith(`.${IPV4_SUFFIX}`) || zoneName.endsWith(`.${IPV6_SUFFIX}`);
+}
+
+// The 32 nibbles of an IPv6 address, most significant first
+function ipv6Nibbles(address: string) {
+  let text = address.toLowerCase();
+  // An embedded IPv4 address stands for the last two groups
+  const embedded = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+  if (embedded) {
+    const [a, b, c, d] = embedded.slice(1).map(Number);
+    text = `${text.slice(0, embedded.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const headWords = head ? head.split(':') : [];
+  const tailWords = tail ? tail.split(':') : [];
+  const words = tail === undefined
+    ? headWords
+    : [...headWords, ...Array(8 - headWords.length - tailWords.length).fill('0'), ...tailWords];
+  return words.flatMap(word => word.padStart(4, '0').split(''));
+}
+
+// Fully qualified reverse name of an address, without the trailing dot
+export function reverseName(address: string) {
+  if (isIP(address) === 4) return `${address.split('.').reverse().join('.')}.${IPV4_SUFFIX}`;
+  return `${ipv6Nibbles(address).reverse().join('.')}.${IPV6_SUFFIX}`;
+}
+
+// Reverse zone for a network such as 192.0.2.0/24, 192.0.2.64/26 or
+// 2001:db8::/48. IPv4 networks are /8, /16 or /24, or an RFC 2317 range of
+// /25 to /31 inside a /24; IPv6 prefixes fall on a nibble boundary.
+export function reverseZoneName(network: string): { name?: string; error?: string } {
+  const [address, prefixText, ...rest] = network.trim().toLowerCase().split('/');
+  const family = isIP(address);
+  const prefix = Number(prefixText);
+  if (!family || rest.length > 0 || !/^\d+$/.test(prefixText ?? '')) {
+    return { error: 'Network must be an address with a prefix length, e.g. 192.0.2.0/24' };
+  }
+
+  if (family === 4) {
+    const octets = address.split('.').map(Number);
+    const value = octets.reduce((sum, octet) => sum * 256 + octet, 0);
+    if (prefix < 8 || prefix > 31) return { error: 'IPv4 networks must be between /8 and /31' };
+    if (value % 2 ** (32 - prefix) !== 0) return { error: `${address} is not the first address of a /${prefix}` };
+    if (prefix > 24) {
+      return { name: `${octets[3]}-${prefix}.${octets.slice(0, 3).reverse().join('.')}.${IPV4_SUFFIX}` };
+    }
+    if (prefix % 8 !== 0) return { error: 'IPv4 networks up to /24 must be a /8, /16 or /24' };
+    return { name: `${octets.slice(0, prefix / 8).reverse().join('.')}.${IPV4_SUFFIX}` };
+  }
+
+  if (prefix < 4 || prefix > 124 || prefix % 4 !== 0) return { error: 'IPv6 prefixes must be a multiple of 4 between /4 and /124' };
+  const nibbles = ipv6Nibbles(address);
+  if (nibbles.slice(prefix / 4).some(nibble => nibble !== '0')) return { error: `${address} is not the first address of a /${prefix}` };
+  return { name: `${nibbles.slice(0, prefix / 4).reverse().join('.')}.${IPV6_SUFFIX}` };
+}
+
+// Parent /24 zone and the addresses of an RFC 2317 classless zone, or null
+export function classlessRange(zoneName: string) {
+  const [label, ...parent] = zoneName.split('.');
+  const match = CLASSLESS_LABEL.exec(label);
+  if (!match || parent.length !== 5 || !zoneName.endsWith(`.${IPV4_SUFFIX}`)) return null;
+  const first = Number(match[1]);
+  const size = 2 ** (32 - Number(match[2]));
+  return { label, parent: parent.join('.'), first, last: first + size - 1 };
+}
+
+// Owner of the address's PTR relative to the reverse zone, or null when the
+// zone does not cover the address
+export function reverseOwner(address: string, zoneName: string) {
+  const name = reverseName(address);
+  const classless = classlessRange(zoneName);
+  if (classless) {
+    const [octet, ...parent] = name.split('.');
+    const value = Number(octet);
+    return parent.join('.') === classless.parent && value >= classless.first && value <= classless.last ? octet : null;
+  }
+  return name.endsWith(`.${zoneName}`) ? name.slice(0, -(zoneName.length + 1)) : null;
+}
+
+// The most specific of the zones that covers the address
+export function owningReverseZone<T extends { name: string }>(address: string, zones: T[]) {
+  return zones
+    .filter(zone => reverseOwner(address, zone.name) !== null)
+    .sort((a, b) => b.name.length - a.name.length)[0] ?? null;
+}
+
+// RFC 2317 delegation published in a /24 zone for its classless children: NS
+// records for the child label and a CNAME per address pointing into it
+export function classlessDelegation(zoneName: string, children: Array<{ name: string; soa: SOAConfig }>): ZoneRecord[] {
+  const records: ZoneRecord[] = [];
+  for (const child of children) {
+    const range = classlessRange(child.name);
+    if (!range || range.parent !== zoneName) continue;
+    const ttl = child.soa.defaultTtl;
+    for (const ns of child.soa.nameServers) {
+      records.push({ id: `rfc2317:${child.name}:ns:${ns.hostname}`, type: 'NS', name: range.label, value: qualifyName(ns.hostname, child.name), ttl });
+    }
+    for (let octet = range.first; octet <= range.last; octet++) {
+      records.push({ id: `rfc2317:${child.name}:${octet}`, type: 'CNAME', name: String(octet), value: `${octet}.${child.name}.`, ttl });
+    }
+  }
+  return records;
+}
+
+type ReverseZone = { id: string; name: string };
+
+function reverseZones(userId: string, db: Db): Promise<ReverseZone[]> {
+  return db.domain.findMany({
+    where: { userId, zoneType: 'primary', OR: [{ name: { endsWith: `.${IPV4_SUFFIX}` } }, { name: { endsWith: `.${IPV6_SUFFIX}` } }] },
+    select: { id: true, name: true }
+  });
+}
+
+interface ForwardRecord {
+  id?: string;
+  type: string;
+  name: string;
+  value: string;
+}
+
+// Where the PTR for an A/AAAA record goes: the most specific reverse zone of
+// the forward zone's owner that covers the address. `error` explains why the
+// PTR cannot be kept.
+export async function ptrPlacement(record: ForwardRecord, domain: { name: string; userId: string }, db: Db = prisma) {
+  const zone = owningReverseZone(record.value, await reverseZones(domain.userId, db));
+  if (!zone) return { error: `No reverse zone covers ${record.value}` };
+
+  const ptr = { domainId: zone.id, name: reverseOwner(record.value, zone.name)!, value: absoluteOwner(record.name, domain.name) };
+  const existing = await db.dNSRecord.findFirst({
+    where: { ...ptr, type: 'PTR', OR: [{ ptrSourceId: null }, { ptrSourceId: { not: record.id ?? '' } }] }
+  });
+  if (existing) return { error: `${zone.name} already has a PTR for ${record.value} to ${ptr.value}` };
+  return { ptr, zone };
+}
+
+// Brings the PTR of a record in line with it: created, moved, updated or
+// removed when the record no longer asks for one. Returns the ids of the
+// reverse zones that changed.
+export async function refreshPtr(recordId: string, db: Db = prisma) {
+  const record = await db.dNSRecord.findUnique({
+    where: { id: recordId },
+    include: { domain: true, ptrRecord: { include: { views: { select: { id: true } } } }, views: { select: { id: true } } }
+  });
+  if (!record) return [];
+
+  const wanted = record.autoPtr && AUTO_PTR_TYPES.includes(record.type);
+  const placement = wanted ? await ptrPlacement(record, record.domain, db) : null;
+  const desired = placement?.ptr ? { ...placement.ptr, ttl: record.ttl, views: record.views.map(view => view.id) } : null;
+  const current = record.ptrRecord;
+
+  if (current && desired && current.domainId === desired.domainId && current.name === desired.name &&
+    current.value === desired.value && current.ttl === desired.ttl &&
+    current.views.map(view => view.id).sort().join() === [...desired.views].sort().join()) {
+    return [];
+  }
+
+  const changed: string[] = [];
+  if (current) {
+    await db.dNSRecord.delete({ where: { id: current.id } });
+    changed.push(current.domainId);
+  }
+  if (desired) {
+    const { views, ...ptr } = desired;
+    await db.dNSRecord.create({
+      data: { ...ptr, type: 'PTR', ptrSourceId: record.id, views: { connect: views.map(id => ({ id })) } }
+    });
+    changed.push(desired.domainId);
+  }
+  return [...new Set(changed)];
+}
+
+async function refreshMatchingPtrs(where: Prisma.DNSRecordWhereInput) {
+  const records = await prisma.dNSRecord.findMany({
+    where: { ...where, autoPtr: true, type: { in: AUTO_PTR_TYPES } },
+    select: { id: true }
+  });
+  const changed = new Set<string>();
+  for (const record of records) {
+    for (const id of await refreshPtr(record.id)) changed.add(id);
+  }
+  return [...changed];
+}
+
+// Refreshes the PTRs of every record of a user that asks for one, e.g. after
+// a reverse zone was added. Returns the ids of the reverse zones that changed.
+export function refreshPtrs(userId: string) {
+  return refreshMatchingPtrs({ domain: { userId } });
+}
+
+// Refreshes the PTRs of a domain's records after it was renamed, so they
+// point at the new names. Returns the ids of the reverse zones that changed.
+export function refreshDomainPtrs(domainId: string) {
+  return refreshMatchingPtrs({ domainId });
+}
+
+// Ids of the /24 zones that publish the delegation of a classless zone
+export async function classlessParents(zoneName: string) {
+  const range = classlessRange(zoneName);
+  if (!range) return [];
+  const parents = await prisma.domain.findMany({ where: { name: range.parent, zoneType: 'primary' }, select: { id: true } });
+  return parents.map(parent => parent.id);
+}
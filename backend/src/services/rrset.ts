@@ -0,0 +1,165 @@
+import { ZoneRecord, ZoneSnapshot } from './dnsBackend';
+import { ResourceRecord, apexResourceRecords, soaContent, zoneResourceRecords } from './zoneRenderer';
+
+// All records sharing an owner name and type, with absolute names everywhere.
+// This is the unit APIs and dynamic updates work with.
+export interface RRSet {
+  name: string;
+  type: string;
+  ttl: number;
+  contents: string[];
+}
+
+// One RRset that differs between two versions of a zone. `before` is null for
+// an added RRset and `after` is null for a removed one.
+export interface RRSetDiff {
+  before: RRSet | null;
+  after: RRSet | null;
+}
+
+// Types whose RDATA ends in a domain name that BIND would qualify with $ORIGIN
+const TARGET_FIELD: Record<string, number> = { CNAME: 0, NS: 0, PTR: 0, DNAME: 0, MX: 1, SRV: 3, NAPTR: 5, HTTPS: 1, SVCB: 1 };
+
+export function absoluteName(name: string, zoneName: string) {
+  if (name === '@') return `${zoneName}.`;
+  if (name.endsWith('.')) return name;
+  return `${name}.${zoneName}.`;
+}
+
+// Fully qualified names inside RDATA and quoted TXT, the form servers report
+export function absoluteContent(type: string, content: string, zoneName: string) {
+  if (type === 'TXT' || type === 'SPF') {
+    return content.startsWith('"') ? content : `"${content.replace(/"/g, '\\"')}"`;
+  }
+
+  const field = TARGET_FIELD[type];
+  if (field === undefined) return content;
+
+  const parts = content.trim().split(/\s+/);
+  if (parts[field]) parts[field] = absoluteName(parts[field], zoneName);
+  return parts.join(' ');
+}
+
+// Groups the zone's records, SOA and NS set included, into RRsets
+export function zoneRRSets(zone: ZoneSnapshot): RRSet[] {
+  const rrsets = new Map<string, RRSet>();
+  const soa: ResourceRecord = { name: '@', ttl: zone.soa.defaultTtl, type: 'SOA', content: soaContent(zone.soa, zone.serial) };
+
+  for (const rr of [soa, ...apexResourceRecords(zone.name, zone.soa), ...zoneResourceRecords(zone)]) {
+    const name = absoluteName(rr.name, zone.name).toLowerCase();
+    const key = `${name}|${rr.type}`;
+    let rrset = rrsets.get(key);
+    if (!rrset) {
+      rrset = { name, type: rr.type, ttl: rr.ttl ?? zone.soa.defaultTtl, contents: [] };
+      rrsets.set(key, rrset);
+    }
+
+    const content = absoluteContent(rr.type, rr.content, zone.name);
+    if (!rrset.contents.includes(content)) rrset.contents.push(content);
+  }
+
+  return [...rrsets.values()];
+}
+
+// Owner and RDATA a stored record is published with, or null if it is not
+// published (e.g. out of zone). Lets records entered in different forms be
+// compared.
+export function publishedRecord(zoneName: string, record: ZoneRecord) {
+  const [rr] = zoneResourceRecords({ name: zoneName, records: [record], loadBalancers: [] });
+  if (!rr) return null;
+  return {
+    name: absoluteName(rr.name, zoneName).toLowerCase(),
+    type: rr.type,
+    ttl: rr.ttl,
+    content: absoluteContent(rr.type, rr.content, zoneName)
+  };
+}
+
+// Fields of hex data that zone files may split; compared joined and in
+// lower case
+const HEX_FROM: Record<string, number> = { DS: 3, TLSA: 3, SSHFP: 2 };
+
+// Comparable form of one RDATA: whitespace outside quoted strings is
+// collapsed and domain names are lower-cased, everything else is compared
+// exactly so a change of case in e.g. a TXT value still counts
+export function canonicalContent(type: string, content: string) {
+  const fields = [...content.trim().matchAll(/"(?:[^"\\]|\\.)*"|\S+/g)].map(match => match[0]);
+  const names = type === 'SOA' ? [0, 1] : TARGET_FIELD[type] === undefined ? [] : [TARGET_FIELD[type]];
+  for (const index of names) {
+    if (fields[index]) fields[index] = fields[index].toLowerCase();
+  }
+  const hexFrom = HEX_FROM[type];
+  if (hexFrom !== undefined && fields.length > hexFrom) {
+    fields.splice(hexFrom, fields.length - hexFrom, fields.slice(hexFrom).join('').toLowerCase());
+  }
+  return fields.join(' ');
+}
+
+// Comparable form of an RRset's contents. With `ignoreSerial` the SOA serial
+// is left out, for servers that bump it on their own.
+function contentKey(rrset: RRSet, ignoreSerial: boolean) {
+  return rrset.contents
+    .map(content => {
+      const normalized = canonicalContent(rrset.type, content);
+      if (!ignoreSerial || rrset.type !== 'SOA') return normalized;
+      const fields = normalized.split(' ');
+      fields.splice(2, 1);
+      return fields.join(' ');
+    })
+    .sort()
+    .join('\n');
+}
+
+export function sameRRSet(a: RRSet, b: RRSet, ignoreSerial = false) {
+  return a.ttl === b.ttl && contentKey(a, ignoreSerial) === contentKey(b, ignoreSerial);
+}
+
+// RRsets that must change to turn `current` into `desired`
+export function diffRRSets(desired: RRSet[], current: RRSet[], options: { ignoreSerial?: boolean } = {}): RRSetDiff[] {
+  const existing = new Map(current.map(rrset => [`${rrset.name.toLowerCase()}|${rrset.type}`, rrset]));
+  const diffs: RRSetDiff[] = [];
+
+  for (const rrset of desired) {
+    const key = `${rrset.name.toLowerCase()}|${rrset.type}`;
+    const before = existing.get(key) || null;
+    existing.delete(key);
+    if (!before || !sameRRSet(before, rrset, options.ignoreSerial)) {
+      diffs.push({ before, after: rrset });
+    }
+  }
+  for (const rrset of existing.values()) {
+    diffs.push({ before: rrset, after: null });
+  }
+
+  return diffs;
+}
+
+const SERVER_TYPES = new Set(['TSIG', 'RRSIG', 'NSEC', 'NSEC3', 'NSEC3PARAM', 'DNSKEY', 'CDS', 'CDNSKEY', 'TYPE65534']);
+
+// Parses master-file style lines (`name ttl class type rdata`), e.g. dig AXFR
+// output. Comments, blank lines and the repeated closing SOA are skipped.
+export function parseRRSets(text: string): RRSet[] {
+  const rrsets = new Map<string, RRSet>();
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith(';')) continue;
+
+    const match = trimmed.match(/^(\S+)\s+(\d+)\s+(?:(?:IN|ANY)\s+)?([A-Z0-9]+)\s+(.*)$/i);
+    // Transaction signatures are not zone data, and DNSSEC records of a signed
+    // zone are maintained by the server
+    if (!match || SERVER_TYPES.has(match[3].toUpperCase())) continue;
+
+    const [, owner, ttl, type, content] = match;
+    const name = owner.toLowerCase();
+    const key = `${name}|${type.toUpperCase()}`;
+    let rrset = rrsets.get(key);
+    if (!rrset) {
+      rrset = { name, type: type.toUpperCase(), ttl: Number(ttl), contents: [] };
+      rrsets.set(key, rrset);
+    }
+    if (!rrset.contents.includes(content.trim())) rrset.contents.push(content.trim());
+  }
+
+  return [...rrsets.values()];
+}
@@ -0,0 +1,66 @@
+import { PrismaClient } from '@prisma/client';
+import { isIP } from 'net';
+import { ZoneType } from './dnsBackend';
+import { hostnameError } from './ownerName';
+import { KeyOwner } from './zoneAcl';
+
+const prisma = new PrismaClient();
+
+export const ZONE_TYPES: ZoneType[] = ['primary', 'secondary'];
+
+export const SECONDARY_READ_ONLY = 'Records of a secondary zone come from its primaries and cannot be changed here';
+
+export interface ZoneTypeSettings {
+  zoneType: ZoneType;
+  primaries: string[];
+  transferKey: string | null;
+}
+
+export type ZoneTypeField = keyof ZoneTypeSettings;
+
+// Primaries may be sent as a list or as one string separated by commas,
+// semicolons or whitespace
+function addressList(value: unknown) {
+  if (Array.isArray(value)) return value.map(item => String(item).trim()).filter(Boolean);
+  return String(value ?? '').split(/[\s,;]+/).filter(Boolean);
+}
+
+// Zone type settings from a domain create/update body. Fields that are not
+// sent keep their `current` value. A new transfer key must be in the key store
+// and, like in transfer ACLs, belong to `owner` unless they are an admin.
+export async function parseZoneTypeInput(
+  body: Record<string, unknown>,
+  owner: KeyOwner,
+  current: ZoneTypeSettings = { zoneType: 'primary', primaries: [], transferKey: null }
+) {
+  const errors: Partial<Record<ZoneTypeField, string>> = {};
+  const zoneType = (body.zoneType ?? current.zoneType) as ZoneType;
+  const primaries = body.primaries === undefined ? current.primaries : addressList(body.primaries);
+  const rawKey = body.transferKey === undefined ? current.transferKey : String(body.transferKey ?? '').trim().toLowerCase().replace(/\.$/, '');
+  const transferKey = rawKey || null;
+
+  if (!ZONE_TYPES.includes(zoneType)) errors.zoneType = `Zone type must be one of ${ZONE_TYPES.join(', ')}`;
+
+  if (zoneType === 'secondary') {
+    const invalid = primaries.filter(address => !isIP(address));
+    if (primaries.length === 0) errors.primaries = 'A secondary zone needs at least one primary address';
+    else if (invalid.length > 0) errors.primaries = `Not an IP address: ${invalid.join(', ')}`;
+    const keyError = transferKey && hostnameError(transferKey);
+    if (keyError) {
+      errors.transferKey = `Key name ${keyError}`;
+    } else if (transferKey && transferKey !== current.transferKey) {
+      const key = await prisma.tSIGKey.findFirst({
+        where: { name: transferKey, ...(owner.isAdmin ? {} : { userId: owner.id }) },
+        select: { id: true }
+      });
+      if (!key) errors.transferKey = `Unknown TSIG key ${transferKey}`;
+    }
+  }
+
+  if (Object.keys(errors).length > 0) return { errors };
+  // Primary zones do not keep transfer settings
+  const data: ZoneTypeSettings = zoneType === 'secondary'
+    ? { zoneType, primaries: [...new Set(primaries)], transferKey }
+    : { zoneType, primaries: [], transferKey: null };
+  return { data, errors };
+}
@@ -0,0 +1,250 @@
+import { PrismaClient } from '@prisma/client';
+import { isIPv4, isIPv6 } from 'net';
+
+const prisma = new PrismaClient();
+
+export interface NameServerConfig {
+  hostname: string;
+  ipv4?: string | null;
+  ipv6?: string | null;
+}
+
+export interface SOAConfig {
+  primaryNs: string;
+  contact: string;
+  refresh: number;
+  retry: number;
+  expire: number;
+  minimum: number;
+  defaultTtl: number;
+  apexAddress: string | null;
+  nameServers: NameServerConfig[];
+  isDefault: boolean;
+}
+
+export interface SOAProfileRow {
+  primaryNs: string;
+  contact: string;
+  refresh: number;
+  retry: number;
+  expire: number;
+  minimum: number;
+  defaultTtl: number;
+  apexAddress: string | null;
+  nameServers: Array<NameServerConfig & { position: number }>;
+}
+
+const HOSTNAME_REGEX = /^(?=.{1,253}\.?$)([a-zA-Z0-9_]([a-zA-Z0-9_-]{0,61}[a-zA-Z0-9])?\.)*[a-zA-Z0-9_]([a-zA-Z0-9_-]{0,61}[a-zA-Z0-9])?\.?$/;
+
+function envInt(name: string, fallback: number) {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+// Expands the {domain} placeholder used in the DNS_* defaults
+function expand(template: string, domainName: string) {
+  return template.split('{domain}').join(domainName);
+}
+
+// DNS_NAMESERVERS is a comma separated list of hostname=address entries.
+// A hostname listed twice (once per address family) gets both glue records.
+function parseNameServerList(value: string, domainName: string): NameServerConfig[] {
+  const servers: NameServerConfig[] = [];
+
+  for (const entry of value.split(',').map(e => e.trim()).filter(Boolean)) {
+    const [hostname, address] = entry.split('=').map(part => part.trim());
+    const host = expand(hostname, domainName);
+    let server = servers.find(s => s.hostname === host);
+    if (!server) {
+      server = { hostname: host, ipv4: null, ipv6: null };
+      servers.push(server);
+    }
+    if (address && isIPv4(address)) server.ipv4 = address;
+    if (address && isIPv6(address)) server.ipv6 = address;
+  }
+
+  return servers;
+}
+
+// Global default profile, configured through the environment
+export function getDefaultSOAConfig(domainName: string): SOAConfig {
+  return {
+    primaryNs: expand(process.env.DNS_PRIMARY_NS || 'ns1.{domain}.', domainName),
+    contact: expand(process.env.DNS_SOA_CONTACT || 'admin.{domain}.', domainName),
+    refresh: envInt('DNS_SOA_REFRESH', 3600),
+    retry: envInt('DNS_SOA_RETRY', 1800),
+    expire: envInt('DNS_SOA_EXPIRE', 1209600),
+    minimum: envInt('DNS_SOA_MINIMUM', 86400),
+    defaultTtl: envInt('DNS_DEFAULT_TTL', 86400),
+    apexAddress: process.env.DNS_APEX_ADDRESS || null,
+    nameServers: parseNameServerList(process.env.DNS_NAMESERVERS || 'ns1.{domain}.=127.0.0.1', domainName),
+    isDefault: true
+  };
+}
+
+// Effective profile for a domain: its own profile if set, the default otherwise
+export function toSOAConfig(domainName: string, profile?: SOAProfileRow | null): SOAConfig {
+  if (!profile) return getDefaultSOAConfig(domainName);
+
+  return {
+    primaryNs: profile.primaryNs,
+    contact: profile.contact,
+    refresh: profile.refresh,
+    retry: profile.retry,
+    expire: profile.expire,
+    minimum: profile.minimum,
+    defaultTtl: profile.defaultTtl,
+    apexAddress: profile.apexAddress,
+    nameServers: [...profile.nameServers]
+      .sort((a, b) => a.position - b.position)
+      .map(ns => ({ hostname: ns.hostname, ipv4: ns.ipv4, ipv6: ns.ipv6 })),
+    isDefault: false
+  };
+}
+
+export async function getSOAConfig(domain: { id: string; name: string }): Promise<SOAConfig> {
+  const profile = await prisma.sOAProfile.findUnique({
+    where: { domainId: domain.id },
+    include: { nameServers: true }
+  });
+  return toSOAConfig(domain.name, profile);
+}
+
+// Absolute (trailing dot) form of a name. Names without a dot are taken to be
+// relative to the zone; anything else is already fully qualified. The bind9
+// webhook script qualifies names the same way.
+export function qualifyName(name: string, domainName: string) {
+  if (name === '@') return `${domainName}.`;
+  if (name.endsWith('.')) return name;
+  if (!name.includes('.')) return `${name}.${domainName}.`;
+  return `${name}.`;
+}
+
+// Converts hostmaster@example.com to the SOA RNAME form hostmaster.example.com.
+export function normalizeContact(contact: string, domainName: string) {
+  const at = contact.indexOf('@');
+  if (at === -1) return qualifyName(contact, domainName);
+  const local = contact.slice(0, at).replace(/\./g, '\\.');
+  return `${local}.${contact.slice(at + 1).replace(/\.$/, '')}.`;
+}
+
+// Owner name of an in-zone nameserver relative to the zone, or null when the
+// nameserver lives outside the zone and therefore needs no glue here.
+export function glueOwner(hostname: string, domainName: string) {
+  const fqdn = qualifyName(hostname, domainName).toLowerCase();
+  const origin = `${domainName.toLowerCase()}.`;
+  if (fqdn === origin) return '@';
+  if (fqdn.endsWith(`.${origin}`)) return fqdn.slice(0, -(origin.length + 1));
+  return null;
+}
+
+function validTimer(value: unknown) {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 2147483647;
+}
+
+export interface SOAInput {
+  primaryNs: string;
+  contact: string;
+  refresh: number;
+  retry: number;
+  expire: number;
+  minimum: number;
+  defaultTtl: number;
+  apexAddress: string | null;
+  nameServers: NameServerConfig[];
+}
+
+// Validates and normalizes a PUT /domains/:id/soa body. Missing timers fall
+// back to the global default so clients can send only what they change.
+// Errors are keyed by field, e.g. `refresh` or `nameServers.0.hostname`.
+export function parseSOAInput(body: unknown, domainName: string): { data?: SOAInput; errors: Record<string, string> } {
+  const errors: Record<string, string> = {};
+  const fail = (field: string, message: string) => {
+    if (!errors[field]) errors[field] = message;
+  };
+  const defaults = getDefaultSOAConfig(domainName);
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  const primaryNs = typeof input.primaryNs === 'string' ? input.primaryNs.trim() : '';
+  if (!primaryNs || !HOSTNAME_REGEX.test(primaryNs)) {
+    fail('primaryNs', 'primaryNs must be a valid hostname');
+  }
+
+  const contact = typeof input.contact === 'string' ? input.contact.trim() : '';
+  if (!contact || !HOSTNAME_REGEX.test(contact.replace('@', '.'))) {
+    fail('contact', 'contact must be a mailbox such as hostmaster@example.com');
+  }
+
+  // Checked by validTimer below; nothing is returned unless they all pass
+  const timers = {
+    refresh: (input.refresh ?? defaults.refresh) as number,
+    retry: (input.retry ?? defaults.retry) as number,
+    expire: (input.expire ?? defaults.expire) as number,
+    minimum: (input.minimum ?? defaults.minimum) as number,
+    defaultTtl: (input.defaultTtl ?? defaults.defaultTtl) as number
+  };
+  for (const [key, value] of Object.entries(timers)) {
+    if (!validTimer(value)) fail(key, `${key} must be a non-negative integer`);
+  }
+  if (validTimer(timers.retry) && validTimer(timers.refresh) && timers.retry > timers.refresh) {
+    fail('retry', 'retry should not be greater than refresh');
+  }
+  if (validTimer(timers.expire) && validTimer(timers.refresh) && timers.expire <= timers.refresh) {
+    fail('expire', 'expire must be greater than refresh');
+  }
+
+  const apexAddress = input.apexAddress ? String(input.apexAddress).trim() : null;
+  if (apexAddress && !isIPv4(apexAddress)) {
+    fail('apexAddress', 'apexAddress must be an IPv4 address');
+  }
+
+  const nameServers: NameServerConfig[] = [];
+  if (!Array.isArray(input.nameServers) || input.nameServers.length === 0) {
+    fail('nameServers', 'nameServers must contain at least one nameserver');
+  } else {
+    input.nameServers.forEach((item: unknown, index: number) => {
+      const ns = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+      const hostname = typeof ns.hostname === 'string' ? ns.hostname.trim() : '';
+      const ipv4 = ns.ipv4 ? String(ns.ipv4).trim() : null;
+      const ipv6 = ns.ipv6 ? String(ns.ipv6).trim() : null;
+
+      if (!hostname || !HOSTNAME_REGEX.test(hostname)) {
+        fail(`nameServers.${index}.hostname`, `nameServers[${index}].hostname must be a valid hostname`);
+      } else if (glueOwner(hostname, domainName) !== null && !ipv4 && !ipv6) {
+        fail(`nameServers.${index}.ipv4`, `nameServers[${index}] is inside ${domainName} and needs a glue address`);
+      }
+      if (ipv4 && !isIPv4(ipv4)) fail(`nameServers.${index}.ipv4`, `nameServers[${index}].ipv4 is not a valid IPv4 address`);
+      if (ipv6 && !isIPv6(ipv6)) fail(`nameServers.${index}.ipv6`, `nameServers[${index}].ipv6 is not a valid IPv6 address`);
+
+      nameServers.push({ hostname: qualifyName(hostname, domainName), ipv4, ipv6 });
+    });
+  }
+
+  if (Object.keys(errors).length > 0) return { errors };
+
+  return {
+    data: {
+      primaryNs: qualifyName(primaryNs, domainName),
+      contact: normalizeContact(contact, domainName),
+      ...timers,
+      apexAddress,
+      nameServers
+    },
+    errors
+  };
+}
+
+export async function saveSOAProfile(domainId: string, data: SOAInput) {
+  const { nameServers, ...fields } = data;
+  const servers = nameServers.map((ns, position) => ({ ...ns, position }));
+
+  await prisma.sOAProfile.upsert({
+    where: { domainId },
+    create: { domainId, ...fields, nameServers: { create: servers } },
+    update: { ...fields, nameServers: { deleteMany: {}, create: servers } }
+  });
+}
+
+export async function deleteSOAProfile(domainId: string) {
+  await prisma.sOAProfile.deleteMany({ where: { domainId } });
+}
@@ -0,0 +1,285 @@
+import { randomUUID } from 'crypto';
+import { ZoneValidationError } from './dnsBackend';
+import { SyncOptions, syncZones } from './zoneSync';
+
+export type SyncJobStatus = 'pending' | 'running' | 'retrying' | 'succeeded' | 'failed';
+
+// Public view of a sync job as reported by /sync/jobs
+export interface SyncJob {
+  id: string;
+  status: SyncJobStatus;
+  // null means every zone
+  domainIds: string[] | null;
+  removed: string[];
+  // Number of sync requests coalesced into this job
+  requests: number;
+  attempts: number;
+  error: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+interface Waiter {
+  options: SyncOptions;
+  // Undoes the request's database change when the backend rejects it
+  revert?: () => Promise<unknown>;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+interface QueuedJob {
+  job: SyncJob;
+  waiters: Waiter[];
+}
+
+interface SyncQueueConfig {
+  debounceMs: number;
+  maxWaitMs: number;
+  maxAttempts: number;
+  retryDelayMs: number;
+}
+
+// Read lazily so values loaded by dotenv at startup are picked up
+function syncQueueConfigFromEnv(): SyncQueueConfig {
+  const debounceMs = Number(process.env.SYNC_DEBOUNCE_MS || 250);
+  return {
+    debounceMs,
+    maxWaitMs: debounceMs * 8,
+    maxAttempts: Math.max(1, Number(process.env.SYNC_MAX_ATTEMPTS || 3)),
+    retryDelayMs: Number(process.env.SYNC_RETRY_DELAY_MS || 1000)
+  };
+}
+
+// How many finished jobs are kept for /sync/jobs
+const HISTORY_SIZE = 100;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function mergeOptions(job: SyncJob, options: SyncOptions) {
+  if (job.domainIds && options.domainIds) {
+    job.domainIds = [...new Set([...job.domainIds, ...options.domainIds])];
+  } else {
+    job.domainIds = null;
+  }
+  job.removed = [...new Set([...job.removed, ...(options.removed || [])])];
+}
+
+function jobOptions(job: SyncJob): SyncOptions {
+  return { domainIds: job.domainIds ?? undefined, removed: job.removed };
+}
+
+// The latest request that published the rejected zone: one naming its
+// domain, else one publishing every zone or only the server configuration
+// (no or empty domainIds, e.g. ACL and key changes), else simply the latest
+function culpritFor(waiters: Waiter[], error: ZoneValidationError) {
+  const latest = [...waiters].reverse();
+  const { domainId } = error;
+  return (domainId && latest.find(waiter => waiter.options.domainIds?.includes(domainId))) ||
+    latest.find(waiter => !waiter.options.domainIds?.length) ||
+    latest[0];
+}
+
+// What the given requests together ask to publish
+function mergedOptions(waiters: Waiter[]): SyncOptions {
+  const domainIds = waiters.every(waiter => waiter.options.domainIds)
+    ? [...new Set(waiters.flatMap(waiter => waiter.options.domainIds!))]
+    : undefined;
+  return { domainIds, removed: [...new Set(waiters.flatMap(waiter => waiter.options.removed || []))] };
+}
+
+// Single in-process writer for the DNS backend. Sync requests arriving close
+// together are coalesced into one pending job, and jobs run one at a time so
+// zone files and reloads never race.
+export class SyncQueue {
+  private next: QueuedJob | null = null;
+  private running: QueuedJob | null = null;
+  private history: SyncJob[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private firstQueuedAt = 0;
+
+  constructor(private config: SyncQueueConfig = syncQueueConfigFromEnv()) {}
+
+  // Resolves once a job containing this request has been published. When the
+  // backend rejects the zone `revert` runs before the request is rejected and
+  // before any other sync, so the next attempt sees the database without it.
+  enqueue(options: SyncOptions = {}, revert?: () => Promise<unknown>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.next) {
+        this.next = {
+          job: {
+            id: randomUUID(),
+            status: 'pending',
+            domainIds: options.domainIds ? [...options.domainIds] : null,
+            removed: [...(options.removed || [])],
+            requests: 0,
+            attempts: 0,
+            error: null,
+            createdAt: new Date(),
+            startedAt: null,
+            finishedAt: null
+          },
+          waiters: []
+        };
+        this.firstQueuedAt = Date.now();
+      } else {
+        mergeOptions(this.next.job, options);
+      }
+
+      this.next.job.requests++;
+      this.next.waiters.push({ options, revert, resolve, reject });
+      this.schedule();
+    });
+  }
+
+  jobs(): SyncJob[] {
+    const active = [this.next, this.running].filter((queued): queued is QueuedJob => queued !== null);
+    return [...active.map(queued => queued.job), ...this.history];
+  }
+
+  job(id: string) {
+    return this.jobs().find(job => job.id === id) || null;
+  }
+
+  // Restarts the debounce window, bounded so a steady stream of changes
+  // cannot postpone publishing forever
+  private schedule() {
+    if (this.running) return;
+    if (this.timer) clearTimeout(this.timer);
+
+    const waited = Date.now() - this.firstQueuedAt;
+    const delay = Math.max(0, Math.min(this.config.debounceMs, this.config.maxWaitMs - waited));
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.runNext();
+    }, delay);
+  }
+
+  private async runNext() {
+    if (this.running || !this.next) return;
+
+    const queued = this.next;
+    this.next = null;
+    this.running = queued;
+
+    await this.run(queued);
+
+    this.running = null;
+    this.history.unshift(queued.job);
+    this.history.length = Math.min(this.history.length, HISTORY_SIZE);
+
+    if (this.next) this.schedule();
+  }
+
+  private async run({ job, waiters }: QueuedJob) {
+    job.startedAt = new Date();
+
+    try {
+      await this.attempt(job, jobOptions(job));
+      job.status = 'succeeded';
+      waiters.forEach(waiter => waiter.resolve());
+    } catch (error) {
+      if (error instanceof ZoneValidationError) {
+        await this.runWithout(job, waiters, error);
+      } else {
+        job.status = 'failed';
+        job.error = (error as Error).message;
+        waiters.forEach(waiter => waiter.reject(error));
+      }
+    }
+
+    job.finishedAt = new Date();
+  }
+
+  // One bad change should not fail everything it was coalesced with. The
+  // database holds every request's change, so the latest request touching the
+  // rejected zone is reverted and rejected, and the rest are published again,
+  // until a sync passes. Requests are reverted newest first so each revert
+  // restores the state its request started from.
+  private async runWithout(job: SyncJob, waiters: Waiter[], error: ZoneValidationError) {
+    const remaining = [...waiters];
+    const errors: string[] = [];
+
+    for (let rejected: ZoneValidationError | null = error; rejected; ) {
+      const culprit = culpritFor(remaining, rejected);
+      remaining.splice(remaining.indexOf(culprit), 1);
+      errors.push(rejected.message);
+      if (culprit.revert) {
+        await culprit.revert().catch(revertError => console.error(`Sync job ${job.id}: reverting a rejected change failed:`, revertError));
+      }
+      culprit.reject(rejected);
+      if (remaining.length === 0) break;
+
+      rejected = null;
+      try {
+        await this.attempt(job, mergedOptions(remaining));
+        remaining.forEach(waiter => waiter.resolve());
+      } catch (retryError) {
+        if (retryError instanceof ZoneValidationError) {
+          rejected = retryError;
+        } else {
+          errors.push((retryError as Error).message);
+          remaining.forEach(waiter => waiter.reject(retryError));
+        }
+      }
+    }
+
+    job.status = 'failed';
+    job.error = [...new Set(errors)].join('; ');
+  }
+
+  // Retries backend failures with exponential backoff. Validation errors are
+  // final, retrying cannot fix them.
+  private async attempt(job: SyncJob, options: SyncOptions) {
+    for (let attempt = 1; ; attempt++) {
+      job.attempts++;
+      job.status = 'running';
+
+      try {
+        await syncZones(options);
+        job.error = null;
+        return;
+      } catch (error) {
+        job.error = (error as Error).message;
+        if (error instanceof ZoneValidationError || attempt >= this.config.maxAttempts) throw error;
+
+        const delay = this.config.retryDelayMs * 2 ** (attempt - 1);
+        console.warn(`Sync job ${job.id} failed (attempt ${attempt}), retrying in ${delay}ms`);
+        job.status = 'retrying';
+        await sleep(delay);
+      }
+    }
+  }
+}
+
+let queue: SyncQueue | null = null;
+
+export function getSyncQueue() {
+  if (!queue) queue = new SyncQueue();
+  return queue;
+}
+
+// Queues a sync and waits for it to be published
+export function queueSync(options: SyncOptions = {}) {
+  return getSyncQueue().enqueue(options);
+}
+
+// Runs a sync after a database change and undoes that change if the backend
+// rejects the result. The queue runs the revert before any other sync; the
+// validation error is rethrown for the route to report.
+export function syncZonesOrRevert(revert: () => Promise<unknown>, options: SyncOptions = {}) {
+  return getSyncQueue().enqueue(options, revert);
+}
+
+// DNS load balancer health check sonuçlarına göre DNS kayıtlarını güncelle
+export async function updateDNSLoadBalancerRecords(domainId?: string) {
+  try {
+    // Domain verilmezse tüm domain'leri yeniden senkronize et
+    await queueSync(domainId ? { domainIds: [domainId] } : {});
+
+    console.log('DNS load balancer records updated successfully');
+  } catch (error) {
+    console.error('Error updating DNS load balancer records:', error);
+    throw error;
+  }
+}
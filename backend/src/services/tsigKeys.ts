@@ -0,0 +1,47 @@
+import { randomBytes } from 'crypto';
+import { TSIGKey } from '@prisma/client';
+import { hostnameError } from './ownerName';
+
+// Secret length per algorithm, the HMAC output size as tsig-keygen uses
+export const TSIG_ALGORITHMS: Record<string, number> = {
+  'hmac-md5': 16,
+  'hmac-sha1': 20,
+  'hmac-sha224': 28,
+  'hmac-sha256': 32,
+  'hmac-sha384': 48,
+  'hmac-sha512': 64
+};
+
+export const DEFAULT_TSIG_ALGORITHM = 'hmac-sha256';
+
+const BASE64_REGEX = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+export type TsigKeyField = 'name' | 'algorithm' | 'secret';
+
+export function generateSecret(algorithm: string) {
+  return randomBytes(TSIG_ALGORITHMS[algorithm]).toString('base64');
+}
+
+// Key from a create body. Without a secret one is generated; an existing
+// secret can be given to take over a key other servers already use.
+export function parseTsigKeyInput(body: Record<string, unknown>) {
+  const errors: Partial<Record<TsigKeyField, string>> = {};
+  const name = String(body.name ?? '').trim().toLowerCase().replace(/\.$/, '');
+  const algorithm = String(body.algorithm ?? DEFAULT_TSIG_ALGORITHM).toLowerCase();
+  const secret = body.secret === undefined || body.secret === '' ? null : String(body.secret).trim();
+
+  const nameError = hostnameError(name);
+  if (nameError) errors.name = `Key name ${nameError}`;
+  if (!(algorithm in TSIG_ALGORITHMS)) errors.algorithm = `Algorithm must be one of ${Object.keys(TSIG_ALGORITHMS).join(', ')}`;
+  if (secret !== null && (!BASE64_REGEX.test(secret) || Buffer.from(secret, 'base64').length < 16)) {
+    errors.secret = 'Secret must be base64 and at least 16 bytes long';
+  }
+
+  if (Object.keys(errors).length > 0) return { errors };
+  return { data: { name, algorithm, secret: secret ?? generateSecret(algorithm) }, errors };
+}
+
+// Key as listed by the API; the secret is never included
+export function publicTsigKey({ secret, ...key }: TSIGKey) {
+  return key;
+}
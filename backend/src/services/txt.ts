@@ -0,0 +1,64 @@
+// TXT values are stored as one logical string and written as quoted
+// character-strings of at most 255 bytes each (RFC 1035 3.3.14).
+
+export const TXT_CHUNK_BYTES = 255;
+// RDATA is limited to 65535 bytes, including one length byte per string
+export const MAX_TXT_RDATA = 65535;
+
+const QUOTED_SEQUENCE = /^"(?:[^"\\]|\\.)*"(?:\s+"(?:[^"\\]|\\.)*")*$/s;
+
+// Bytes of a quoted string's body: \DDD is a byte, \X is X, anything else is
+// taken as UTF-8
+function unescapeBytes(body: string) {
+  const bytes: number[] = [];
+  for (let i = 0; i < body.length;) {
+    if (body[i] === '\\' && i + 1 < body.length) {
+      const digits = body.slice(i + 1, i + 4);
+      if (/^\d{3}$/.test(digits)) {
+        bytes.push(Number(digits) & 0xff);
+        i += 4;
+        continue;
+      }
+      i++;
+    }
+    const char = String.fromCodePoint(body.codePointAt(i)!);
+    bytes.push(...Buffer.from(char, 'utf8'));
+    i += char.length;
+  }
+  return bytes;
+}
+
+// Logical value of TXT input. Input written as one or more quoted strings
+// ("v=DKIM1; " "p=...") is unquoted and joined; anything else is literal.
+export function txtValue(input: string) {
+  const text = input.trim();
+  if (!QUOTED_SEQUENCE.test(text)) return text;
+  const bytes = [...text.matchAll(/"((?:[^"\\]|\\.)*)"/gs)].flatMap(match => unescapeBytes(match[1]));
+  return Buffer.from(bytes).toString('utf8');
+}
+
+// Size of the value on the wire
+export function txtRDataLength(value: string) {
+  const bytes = Buffer.byteLength(value, 'utf8');
+  return bytes + Math.max(1, Math.ceil(bytes / TXT_CHUNK_BYTES));
+}
+
+function escapeByte(byte: number) {
+  if (byte === 0x22) return '\\"';
+  if (byte === 0x5c) return '\\\\';
+  if (byte >= 0x20 && byte < 0x7f) return String.fromCharCode(byte);
+  return `\\${String(byte).padStart(3, '0')}`;
+}
+
+// Zone file form: quoted, escaped strings of up to 255 bytes, split on byte
+// boundaries. Non-ASCII bytes are written as \DDD, as dig prints them. The
+// value is the stored logical string and is written as it is.
+export function formatTxt(value: string) {
+  const bytes = Buffer.from(value, 'utf8');
+  const strings: string[] = [];
+  for (let start = 0; start < bytes.length || strings.length === 0; start += TXT_CHUNK_BYTES) {
+    const chunk = [...bytes.subarray(start, start + TXT_CHUNK_BYTES)];
+    strings.push(`"${chunk.map(escapeByte).join('')}"`);
+  }
+  return strings.join(' ');
+}
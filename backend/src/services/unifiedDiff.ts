@@ -0,0 +1,103 @@
+// Unified diffs (`diff -u` format) of rendered zone files
+
+interface DiffLine {
+  kind: ' ' | '-' | '+';
+  text: string;
+}
+
+// Cells the LCS table may hold; larger changes are shown as a full
+// replacement of the lines between the common head and tail
+const MAX_TABLE_CELLS = 4_000_000;
+
+function lines(text: string) {
+  const split = text.split('\n');
+  if (split[split.length - 1] === '') split.pop();
+  return split;
+}
+
+// Edit script between the lines that differ, from a longest common
+// subsequence table
+function middleDiff(a: string[], b: string[]): DiffLine[] {
+  const removed = a.map(text => ({ kind: '-' as const, text }));
+  const added = b.map(text => ({ kind: '+' as const, text }));
+  if (a.length === 0 || b.length === 0 || (a.length + 1) * (b.length + 1) > MAX_TABLE_CELLS) return [...removed, ...added];
+
+  // lcs[i * width + j]: length of the LCS of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ kind: ' ', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      result.push(removed[i++]);
+    } else {
+      result.push(added[j++]);
+    }
+  }
+  return [...result, ...removed.slice(i), ...added.slice(j)];
+}
+
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  return [
+    ...a.slice(0, head).map(text => ({ kind: ' ' as const, text })),
+    ...middleDiff(a.slice(head, a.length - tail), b.slice(head, b.length - tail)),
+    ...a.slice(a.length - tail).map(text => ({ kind: ' ' as const, text }))
+  ];
+}
+
+// `-start,count` / `+start,count` of a hunk; an empty range starts at the
+// line before it
+function range(before: number, count: number) {
+  const start = count === 0 ? before : before + 1;
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+// Unified diff of two texts with `context` unchanged lines around each
+// change, or '' when they are equal
+export function unifiedDiff(before: string, after: string, fromFile: string, toFile: string, context = 3) {
+  const diff = diffLines(lines(before), lines(after));
+  const changes = diff.flatMap((line, index) => line.kind === ' ' ? [] : [index]);
+  if (changes.length === 0) return '';
+
+  // Changes closer than twice the context share a hunk
+  const hunks: Array<[number, number]> = [];
+  for (const index of changes) {
+    const last = hunks[hunks.length - 1];
+    if (last && index - last[1] <= 2 * context) last[1] = index;
+    else hunks.push([index, index]);
+  }
+
+  const output = [`--- ${fromFile}`, `+++ ${toFile}`];
+  for (const [first, last] of hunks) {
+    const start = Math.max(0, first - context);
+    const end = Math.min(diff.length, last + context + 1);
+    const before = diff.slice(0, start);
+    const hunk = diff.slice(start, end);
+    const oldBefore = before.filter(line => line.kind !== '+').length;
+    const newBefore = before.filter(line => line.kind !== '-').length;
+    const oldCount = hunk.filter(line => line.kind !== '+').length;
+    const newCount = hunk.filter(line => line.kind !== '-').length;
+
+    output.push(`@@ -${range(oldBefore, oldCount)} +${range(newBefore, newCount)} @@`);
+    output.push(...hunk.map(line => `${line.kind}${line.text}`));
+  }
+  return `${output.join('\n')}\n`;
+}
@@ -0,0 +1,81 @@
+import { PrismaClient } from '@prisma/client';
+import { DEFAULT_VIEW } from './dnsBackend';
+import { isRange } from './zoneAcl';
+
+const prisma = new PrismaClient();
+
+const VIEW_NAME_REGEX = /^[a-z0-9][a-z0-9_-]{0,62}$/;
+const ADDRESS_MATCH_NAMES = ['any', 'none', 'localhost', 'localnets'];
+
+export type ViewField = 'name' | 'matchClients' | 'position';
+
+// Why a match-clients element is invalid, or null. Elements are BIND address
+// match list elements: a built-in ACL name, an address or range, or
+// `key <name>`, each optionally negated with a leading `!`.
+function matchClientError(element: string, keyNames: string[]) {
+  const value = element.replace(/^!\s*/, '');
+  const key = /^key\s+"?([^"\s]+)"?$/.exec(value);
+  if (key) return keyNames.includes(key[1].replace(/\.$/, '')) ? null : `Unknown TSIG key ${key[1]}`;
+  if (ADDRESS_MATCH_NAMES.includes(value) || isRange(value)) return null;
+  return `${element} is not an address, range, ACL name or key`;
+}
+
+// Canonical form of a match-clients element: `!` without a space, key names
+// quoted for named.conf
+function normalizeMatchClient(element: string) {
+  const negated = element.startsWith('!');
+  const value = element.replace(/^!\s*/, '');
+  const key = /^key\s+"?([^"\s]+)"?$/.exec(value);
+  return (negated ? '!' : '') + (key ? `key "${key[1].replace(/\.$/, '')}"` : value);
+}
+
+// View from a create or update body like { name: 'internal',
+// matchClients: ['10.0.0.0/8', '!192.0.2.1', 'key internal-xfr'], position: 0 }.
+// Views are matched in position order. Errors for list elements are keyed
+// `matchClients.N`.
+export async function parseViewInput(body: Record<string, unknown>) {
+  const errors: Record<string, string> = {};
+  const name = String(body.name ?? '').trim().toLowerCase();
+  const matchClients = body.matchClients ?? [];
+  const position = Number(body.position ?? 0);
+
+  if (!VIEW_NAME_REGEX.test(name)) {
+    errors.name = 'View name must be 1-63 letters, digits, "-" or "_", starting with a letter or digit';
+  } else if (name === DEFAULT_VIEW) {
+    errors.name = `"${DEFAULT_VIEW}" is reserved for clients that match no view`;
+  }
+
+  if (!Number.isInteger(position) || position < 0) errors.position = 'Position must be a whole number of at least 0';
+
+  const elements: string[] = [];
+  if (!Array.isArray(matchClients) || matchClients.length === 0) {
+    errors.matchClients = 'At least one client match is required';
+  } else {
+    const keys = await prisma.tSIGKey.findMany({ select: { name: true } });
+    const keyNames = keys.map(key => key.name);
+    matchClients.forEach((item: unknown, index) => {
+      const element = String(item ?? '').trim().toLowerCase();
+      const error = matchClientError(element, keyNames);
+      if (error) errors[`matchClients.${index}`] = error;
+      else elements.push(normalizeMatchClient(element));
+    });
+  }
+
+  if (Object.keys(errors).length > 0) return { errors };
+  return { data: { name, matchClients: elements, position }, errors };
+}
+
+// Whether a record scoped to `views` is served in `view`. Unscoped records
+// are served in every view, scoped ones never in DEFAULT_VIEW.
+export function inView(views: string[] | undefined, view: string) {
+  return !views || views.length === 0 || views.includes(view);
+}
+
+// Views named by a record body's `viewIds`; null when an id is not a view
+export async function resolveViews(value: unknown) {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) return null;
+  const ids = [...new Set(value.map(String))];
+  const views = await prisma.view.findMany({ where: { id: { in: ids } }, select: { id: true, name: true } });
+  return views.length === ids.length ? views : null;
+}
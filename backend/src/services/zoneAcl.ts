@@ -0,0 +1,112 @@
+import { PrismaClient } from '@prisma/client';
+import { isIP } from 'net';
+import { AclEntry } from './dnsBackend';
+
+const prisma = new PrismaClient();
+
+// transfer: allow-transfer, notify: also-notify
+export const ACL_KINDS = ['transfer', 'notify'] as const;
+export type AclKind = typeof ACL_KINDS[number];
+
+export type ZoneAcl = Record<AclKind, AclEntry[]>;
+
+interface ParsedEntry {
+  kind: AclKind;
+  address: string | null;
+  keyId: string | null;
+  position: number;
+}
+
+// Who the entries may refer to: admins may use every key, users their own
+export interface KeyOwner {
+  id: string;
+  isAdmin: boolean;
+}
+
+export function isRange(value: string) {
+  const [address, prefix, ...rest] = value.split('/');
+  const family = isIP(address);
+  if (!family || rest.length > 0) return false;
+  if (prefix === undefined) return true;
+  return /^\d+$/.test(prefix) && Number(prefix) <= (family === 4 ? 32 : 128);
+}
+
+// Why an entry is invalid, or null. Transfers are allowed to an address
+// range, `any`, `none` or a key; notifies go to an address, optionally
+// signed with a key.
+function entryError(kind: AclKind, address: string | null, key: string | null) {
+  if (kind === 'transfer') {
+    if (address && key) return 'Give either an address or a key';
+    if (!address && !key) return 'An address range or a key is required';
+    if (address && address !== 'any' && address !== 'none' && !isRange(address)) return `${address} is not an IP address or range`;
+  } else {
+    if (!address) return 'An address is required';
+    if (!isIP(address)) return `${address} is not an IP address`;
+  }
+  return null;
+}
+
+// ACL from a body like { transfer: [{ address: '192.0.2.0/24' }, { key: 'xfr' }],
+// notify: [{ address: '192.0.2.53', key: 'xfr' }] }. Errors are keyed
+// `transfer.0`, `notify.1` and so on. Lists that are not sent are cleared.
+export async function parseAclInput(body: Record<string, unknown>, owner: KeyOwner) {
+  const errors: Record<string, string> = {};
+  const entries: Array<ParsedEntry & { key: string | null }> = [];
+
+  for (const kind of ACL_KINDS) {
+    const list = body[kind] ?? [];
+    if (!Array.isArray(list)) {
+      errors[kind] = `${kind} must be a list`;
+      continue;
+    }
+    list.forEach((item: unknown, position) => {
+      const { address, key } = (item ?? {}) as Record<string, unknown>;
+      const entry = {
+        kind,
+        address: address ? String(address).trim().toLowerCase() : null,
+        key: key ? String(key).trim().toLowerCase().replace(/\.$/, '') : null,
+        keyId: null,
+        position
+      };
+      const error = entryError(kind, entry.address, entry.key);
+      if (error) errors[`${kind}.${position}`] = error;
+      else entries.push(entry);
+    });
+  }
+
+  const names = [...new Set(entries.map(entry => entry.key).filter((key): key is string => key !== null))];
+  const keys = await prisma.tSIGKey.findMany({
+    where: { name: { in: names }, ...(owner.isAdmin ? {} : { userId: owner.id }) },
+    select: { id: true, name: true }
+  });
+  for (const entry of entries) {
+    if (!entry.key) continue;
+    const key = keys.find(k => k.name === entry.key);
+    if (key) entry.keyId = key.id;
+    else errors[`${entry.kind}.${entry.position}`] = `Unknown TSIG key ${entry.key}`;
+  }
+
+  if (Object.keys(errors).length > 0) return { errors };
+  return { data: entries.map(({ key, ...entry }) => entry), errors };
+}
+
+export async function getZoneAcl(domainId: string): Promise<ZoneAcl> {
+  const entries = await prisma.zoneACLEntry.findMany({
+    where: { domainId },
+    include: { key: { select: { name: true } } },
+    orderBy: { position: 'asc' }
+  });
+  const acl: ZoneAcl = { transfer: [], notify: [] };
+  for (const entry of entries) {
+    acl[entry.kind as AclKind].push({ address: entry.address, key: entry.key?.name ?? null });
+  }
+  return acl;
+}
+
+// Replaces the zone's ACL
+export async function saveZoneAcl(domainId: string, entries: ParsedEntry[]) {
+  await prisma.$transaction([
+    prisma.zoneACLEntry.deleteMany({ where: { domainId } }),
+    prisma.zoneACLEntry.createMany({ data: entries.map(entry => ({ domainId, ...entry })) })
+  ]);
+}
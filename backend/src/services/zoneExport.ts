@@ -0,0 +1,60 @@
+import { ZoneSnapshot } from './dnsBackend';
+import { zoneRRSets } from './rrset';
+import { getDnsBackend } from './zoneSync';
+
+export const EXPORT_FORMATS = ['bind', 'json', 'csv'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface ZoneExport {
+  contentType: string;
+  filename: string;
+  body: string;
+}
+
+function csvField(value: string | number) {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Every published record (SOA, NS set, glue, records and load balancer
+// answers) with absolute names, one entry per record
+function publishedRecords(zone: ZoneSnapshot) {
+  return zoneRRSets(zone).flatMap(rrset =>
+    rrset.contents.map(content => ({ name: rrset.name, ttl: rrset.ttl, type: rrset.type, content }))
+  );
+}
+
+// Renders a zone for download. The bind format is the zone file exactly as
+// the backend publishes it, at the current serial.
+export function exportZone(zone: ZoneSnapshot, format: ExportFormat): ZoneExport {
+  switch (format) {
+    case 'bind':
+      return {
+        contentType: 'text/plain; charset=utf-8',
+        filename: `${zone.name}.zone`,
+        body: getDnsBackend().renderZone(zone)
+      };
+    case 'json':
+      return {
+        contentType: 'application/json; charset=utf-8',
+        filename: `${zone.name}.json`,
+        body: JSON.stringify({
+          name: zone.name,
+          serial: zone.serial,
+          soa: zone.soa,
+          records: publishedRecords(zone)
+        }, null, 2)
+      };
+    case 'csv': {
+      const lines = ['name,ttl,type,content'];
+      for (const rr of publishedRecords(zone)) {
+        lines.push([rr.name, rr.ttl, rr.type, rr.content].map(csvField).join(','));
+      }
+      return {
+        contentType: 'text/csv; charset=utf-8',
+        filename: `${zone.name}.csv`,
+        body: lines.join('\r\n') + '\r\n'
+      };
+    }
+  }
+}
@@ -0,0 +1,250 @@
+import { DNSRecord, Prisma, PrismaClient } from '@prisma/client';
+import { ParsedRecord, ZoneParseError, absoluteDomainName, parseZoneFile } from './zoneParser';
+import { publishedRecord } from './rrset';
+import { RECORD_TYPES, validateRecord } from './recordValidation';
+import { RData } from './rdata';
+import { ZoneRecord } from './dnsBackend';
+import { recordSetConflicts } from './zoneLint';
+import { loadZones } from './zoneSync';
+import { normalizeOwner } from './ownerName';
+import { refreshPtr } from './reverseZone';
+import { syncZonesOrRevert } from './syncQueue';
+
+const prisma = new PrismaClient();
+
+// A record from the zone file in the form DNSRecord rows use
+export interface ImportedRecord {
+  name: string;
+  type: string;
+  value: string;
+  ttl: number;
+  priority: number | null;
+  weight: number | null;
+  port: number | null;
+  rdata?: RData;
+  line: number;
+}
+
+export interface ImportConflict {
+  name: string;
+  type: string;
+  existing: DNSRecord[];
+  imported: ImportedRecord[];
+}
+
+export interface ImportPreview {
+  adds: ImportedRecord[];
+  conflicts: ImportConflict[];
+  // Records that already exist exactly as in the file
+  unchanged: number;
+  skipped: Array<{ line: number; reason: string }>;
+  errors: ZoneParseError[];
+}
+
+// Types whose RDATA is a single domain name
+const NAME_TYPES = ['CNAME', 'NS', 'PTR', 'DNAME'];
+
+function quoteField(text: string) {
+  return `"${text.replace(/(["\\])/g, '\\$1')}"`;
+}
+
+function toInt(text: string | undefined) {
+  return text !== undefined && /^\d+$/.test(text) ? Number(text) : null;
+}
+
+// Maps a parsed resource record onto DNSRecord fields. Targets are stored
+// fully qualified so they publish unchanged.
+function toImportedRecord(domainName: string, rr: ParsedRecord): ImportedRecord | string {
+  const { name, error } = normalizeOwner(rr.owner, domainName);
+  if (!name) return error!;
+
+  const record: ImportedRecord = { name, type: rr.type, value: '', ttl: rr.ttl, priority: null, weight: null, port: null, line: rr.line };
+
+  switch (rr.type) {
+    case 'MX':
+      record.priority = toInt(rr.rdata[0]);
+      if (record.priority === null || !rr.rdata[1]) return 'MX needs a preference and an exchange';
+      record.value = absoluteDomainName(rr.rdata[1], rr.origin);
+      break;
+    case 'SRV':
+      [record.priority, record.weight, record.port] = rr.rdata.slice(0, 3).map(toInt);
+      if (record.priority === null || record.weight === null || record.port === null || !rr.rdata[3]) {
+        return 'SRV needs priority, weight, port and target';
+      }
+      record.value = absoluteDomainName(rr.rdata[3], rr.origin);
+      break;
+    case 'TXT':
+    case 'SPF':
+      // Kept quoted so the strings are joined back exactly into one value
+      record.value = rr.rdata.map(quoteField).join(' ');
+      break;
+    default:
+      if (NAME_TYPES.includes(rr.type)) {
+        record.value = absoluteDomainName(rr.rdata[0], rr.origin);
+      } else {
+        record.value = rr.rdata.map((field, i) => rr.quoted[i] ? quoteField(field) : field).join(' ');
+      }
+  }
+
+  return record;
+}
+
+// Parses a zone file into records for the domain, leaving out what the SOA
+// profile already manages
+export function readZoneFile(domainName: string, text: string) {
+  const { records: parsed, errors } = parseZoneFile(text, domainName);
+  const records: ImportedRecord[] = [];
+  const skipped: ImportPreview['skipped'] = [];
+
+  for (const rr of parsed) {
+    if (rr.type === 'SOA') {
+      skipped.push({ line: rr.line, reason: 'SOA is managed by the domain\'s SOA profile' });
+      continue;
+    }
+    if (rr.type === 'NS' && rr.owner === `${domainName.toLowerCase()}.`) {
+      skipped.push({ line: rr.line, reason: 'Apex NS records are managed by the domain\'s SOA profile' });
+      continue;
+    }
+
+    if (!RECORD_TYPES.includes(rr.type)) {
+      skipped.push({ line: rr.line, reason: `${rr.type} records are not supported` });
+      continue;
+    }
+
+    const record = toImportedRecord(domainName, rr);
+    if (typeof record === 'string') {
+      errors.push({ line: rr.line, message: record });
+      continue;
+    }
+    // Same rules as records entered in the form
+    // The owner goes in fully qualified, so names ending in the zone name
+    // are not shortened twice
+    const { data, errors: fieldErrors } = validateRecord({ ...record, name: rr.owner }, domainName);
+    if (data) records.push({ ...record, value: data.value, rdata: data.rdata });
+    else errors.push({ line: rr.line, message: Object.values(fieldErrors).join('; ') });
+  }
+
+  errors.sort((a, b) => a.line - b.line);
+  return { records, skipped, errors };
+}
+
+// Published form of a record, for comparing records entered differently
+function recordKey(domainName: string, record: ImportedRecord | DNSRecord) {
+  const rr = publishedRecord(domainName, { ...record, id: '' });
+  return rr ? { owner: rr.name, content: `${rr.ttl}|${rr.content.toLowerCase()}` } : null;
+}
+
+// RRset rules the imported records would break next to the zone's records,
+// delegations included, as errors on their lines. The zone is checked both
+// with the conflicting RRsets kept and with them replaced.
+function importErrors(zoneName: string, records: ZoneRecord[], preview: ImportPreview): ZoneParseError[] {
+  const withIds = (list: ImportedRecord[]) => list.map(record => ({ ...record, id: `import:${record.line}` }));
+  const adds = withIds(preview.adds);
+  const imported = [...adds, ...withIds(preview.conflicts.flatMap(conflict => conflict.imported))];
+  const replaced = new Set(preview.conflicts.flatMap(conflict => conflict.existing.map(record => record.id)));
+
+  const conflicts = {
+    ...recordSetConflicts(zoneName, [...records, ...adds], adds.map(record => record.id)),
+    ...recordSetConflicts(zoneName, [...records.filter(record => !replaced.has(record.id)), ...imported], imported.map(record => record.id))
+  };
+  return imported
+    .filter(record => conflicts[record.id])
+    .map(record => ({ line: record.line, message: Object.values(conflicts[record.id]).join('; ') }));
+}
+
+// Works out what importing the file would change. Records are compared per
+// RRset (owner and type): a new RRset is an add, an RRset that exists with
+// different data is a conflict. CNAMEs conflict with anything at their owner.
+// Imported records that break the RRset rules the record form enforces are
+// errors.
+export async function previewImport(domain: { id: string; name: string }, text: string): Promise<ImportPreview> {
+  const { records, skipped, errors } = readZoneFile(domain.name, text);
+  const existing = await prisma.dNSRecord.findMany({ where: { domainId: domain.id, isLoadBalanced: false } });
+
+  const existingByOwner = new Map<string, Array<{ record: DNSRecord; content: string }>>();
+  for (const record of existing) {
+    const key = recordKey(domain.name, record);
+    if (!key) continue;
+    const list = existingByOwner.get(key.owner) || [];
+    list.push({ record, content: key.content });
+    existingByOwner.set(key.owner, list);
+  }
+
+  const groups = new Map<string, { owner: string; type: string; records: ImportedRecord[]; contents: string[] }>();
+  for (const record of records) {
+    const key = recordKey(domain.name, record);
+    if (!key) continue;
+    const groupKey = `${key.owner}|${record.type}`;
+    const group = groups.get(groupKey) || { owner: key.owner, type: record.type, records: [], contents: [] };
+    group.records.push(record);
+    group.contents.push(key.content);
+    groups.set(groupKey, group);
+  }
+
+  const preview: ImportPreview = { adds: [], conflicts: [], unchanged: 0, skipped, errors };
+
+  for (const group of groups.values()) {
+    const atOwner = existingByOwner.get(group.owner) || [];
+    const sameType = atOwner.filter(entry => entry.record.type === group.type);
+    const clashing = atOwner.filter(entry => entry.record.type !== group.type && (entry.record.type === 'CNAME' || group.type === 'CNAME'));
+
+    if (sameType.length === 0 && clashing.length === 0) {
+      preview.adds.push(...group.records);
+      continue;
+    }
+
+    const same = clashing.length === 0 &&
+      [...new Set(sameType.map(entry => entry.content))].sort().join('\n') === [...new Set(group.contents)].sort().join('\n');
+    if (same) {
+      preview.unchanged += group.records.length;
+      continue;
+    }
+
+    preview.conflicts.push({
+      name: group.records[0].name,
+      type: group.type,
+      existing: [...sameType, ...clashing].map(entry => entry.record),
+      imported: group.records
+    });
+  }
+
+  const [zone] = await loadZones({ id: domain.id });
+  errors.push(...importErrors(domain.name, zone.records, preview));
+  errors.sort((a, b) => a.line - b.line);
+
+  return preview;
+}
+
+// Creates the previewed records. With `replaceConflicts` the existing records
+// of every conflicting RRset are replaced by the imported ones, otherwise the
+// conflicting RRsets are left alone. Publishes once for the whole import,
+// together with the reverse zones that lose the PTRs of replaced records.
+export async function commitImport(domain: { id: string }, preview: ImportPreview, replaceConflicts: boolean) {
+  const toCreate = [...preview.adds, ...(replaceConflicts ? preview.conflicts.flatMap(conflict => conflict.imported) : [])];
+  const removeIds = replaceConflicts ? preview.conflicts.flatMap(conflict => conflict.existing.map(record => record.id)) : [];
+
+  const { created, removed } = await prisma.$transaction(async tx => {
+    const removed = await tx.dNSRecord.findMany({
+      where: { id: { in: removeIds } },
+      include: { views: { select: { id: true } }, ptrRecord: { select: { domainId: true } } }
+    });
+    // The kept PTRs are deleted with their records
+    await tx.dNSRecord.deleteMany({ where: { id: { in: removeIds } } });
+    const rows: DNSRecord[] = [];
+    for (const { line, ...data } of toCreate) {
+      rows.push(await tx.dNSRecord.create({ data: { ...data, domainId: domain.id } }));
+    }
+    return { created: rows, removed };
+  });
+  const ptrZones = removed.flatMap(record => record.ptrRecord ? [record.ptrRecord.domainId] : []);
+
+  await syncZonesOrRevert(() => prisma.$transaction(async tx => {
+    await tx.dNSRecord.deleteMany({ where: { id: { in: created.map(record => record.id) } } });
+    for (const { views, ptrRecord, ...record } of removed) {
+      await tx.dNSRecord.create({ data: { ...record, rdata: record.rdata ?? Prisma.DbNull, views: { connect: views } } });
+      await refreshPtr(record.id, tx);
+    }
+  }), { domainIds: [domain.id, ...new Set(ptrZones)] });
+
+  return { created, removed };
+}
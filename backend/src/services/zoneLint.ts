@@ -0,0 +1,188 @@
+import { DEFAULT_VIEW, ZoneRecord } from './dnsBackend';
+import { FieldErrors, RecordField, RecordInput } from './recordValidation';
+import { publishedRecord } from './rrset';
+import { inView } from './views';
+
+export type LintRule = 'cname-exclusive' | 'cname-apex' | 'ns-apex' | 'occluded' | 'duplicate' | 'ttl-mismatch';
+
+// One RRset rule a zone's records break
+export interface LintIssue {
+  rule: LintRule;
+  severity: 'error' | 'warning';
+  // Owner relative to the zone ('@' for the apex)
+  name: string;
+  type: string;
+  message: string;
+  recordIds: string[];
+}
+
+// DNSRecord.ttl column default, used for records created without a TTL
+export const DEFAULT_RECORD_TTL = 3600;
+
+// Field of the record form each rule is reported on
+const RULE_FIELDS: Record<LintRule, RecordField> = {
+  'cname-exclusive': 'name',
+  'cname-apex': 'name',
+  'ns-apex': 'name',
+  occluded: 'name',
+  duplicate: 'value',
+  'ttl-mismatch': 'ttl'
+};
+
+interface Published {
+  record: ZoneRecord;
+  owner: string;
+  ttl: number;
+  content: string;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string) {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const list = groups.get(key(item)) || [];
+    list.push(item);
+    groups.set(key(item), list);
+  }
+  return groups;
+}
+
+// Checks records against the RRset rules of RFC 1034/2181: a CNAME is the
+// only record at its owner and never at the apex, apex NS comes from the SOA
+// profile, an RRset holds no identical records and shares a single TTL. NS
+// records below the apex delegate their name: only DS may join them at the
+// cut and only the nameservers' glue addresses may sit below it.
+// Records are compared in the form they are published in, per view when
+// records are scoped to views.
+export function lintRecords(zoneName: string, records: ZoneRecord[]): LintIssue[] {
+  const views = [...new Set(records.flatMap(record => record.views || []))];
+  if (views.length === 0) return lintRecordSet(zoneName, records);
+
+  // A problem shared by several views is reported once
+  const issues = new Map<string, LintIssue>();
+  for (const view of [...views, DEFAULT_VIEW]) {
+    for (const issue of lintRecordSet(zoneName, records.filter(record => inView(record.views, view)))) {
+      issues.set(`${issue.rule} ${issue.name} ${issue.type} ${[...issue.recordIds].sort().join(',')}`, issue);
+    }
+  }
+  return [...issues.values()];
+}
+
+function lintRecordSet(zoneName: string, records: ZoneRecord[]): LintIssue[] {
+  const apex = `${zoneName.toLowerCase()}.`;
+  const relative = (owner: string) => owner === apex ? '@' : owner.slice(0, -(apex.length + 1));
+  const issues: LintIssue[] = [];
+
+  const published: Published[] = [];
+  for (const record of records) {
+    if (record.isLoadBalanced) continue;
+    const rr = publishedRecord(zoneName, record);
+    if (rr) published.push({ record, owner: rr.name, ttl: rr.ttl ?? DEFAULT_RECORD_TTL, content: rr.content.toLowerCase() });
+  }
+
+  for (const [owner, atOwner] of groupBy(published, entry => entry.owner)) {
+    const name = relative(owner);
+    const cnames = atOwner.filter(entry => entry.record.type === 'CNAME');
+
+    if (cnames.length && owner === apex) {
+      issues.push({
+        rule: 'cname-apex', severity: 'error', name, type: 'CNAME',
+        message: 'CNAME is not allowed at the zone apex, it would hide the SOA and NS records',
+        recordIds: cnames.map(entry => entry.record.id)
+      });
+    }
+    if (cnames.length && atOwner.length > 1) {
+      const others = [...new Set(atOwner.filter(entry => entry.record.type !== 'CNAME').map(entry => entry.record.type))];
+      issues.push({
+        rule: 'cname-exclusive', severity: 'error', name, type: 'CNAME',
+        message: others.length
+          ? `A CNAME at ${name} cannot coexist with other records (${others.join(', ')})`
+          : `${name} can only have one CNAME record`,
+        recordIds: atOwner.map(entry => entry.record.id)
+      });
+    }
+
+    const apexNs = atOwner.filter(entry => entry.record.type === 'NS' && owner === apex);
+    if (apexNs.length) {
+      issues.push({
+        rule: 'ns-apex', severity: 'error', name, type: 'NS',
+        message: 'Apex nameservers are managed in the SOA profile',
+        recordIds: apexNs.map(entry => entry.record.id)
+      });
+    }
+
+    for (const [type, rrset] of groupBy(atOwner, entry => entry.record.type)) {
+      for (const copies of groupBy(rrset, entry => entry.content).values()) {
+        if (copies.length < 2) continue;
+        issues.push({
+          rule: 'duplicate', severity: 'error', name, type,
+          message: `${name} has ${copies.length} identical ${type} records (${copies[0].content})`,
+          recordIds: copies.map(entry => entry.record.id)
+        });
+      }
+
+      const ttls = [...new Set(rrset.map(entry => entry.ttl))];
+      if (ttls.length > 1) {
+        issues.push({
+          rule: 'ttl-mismatch', severity: 'warning', name, type,
+          message: `${type} records at ${name} use different TTLs (${ttls.sort((a, b) => a - b).join(', ')}); an RRset has a single TTL`,
+          recordIds: rrset.map(entry => entry.record.id)
+        });
+      }
+    }
+  }
+
+  issues.push(...occlusionIssues(published, apex, relative));
+
+  return issues;
+}
+
+// Records hidden by a delegation, one issue per cut naming its NS records and
+// the records resolvers would never see
+function occlusionIssues(published: Published[], apex: string, relative: (owner: string) => string): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const cuts = groupBy(published.filter(entry => entry.record.type === 'NS' && entry.owner !== apex), entry => entry.owner);
+
+  for (const [cut, nameServers] of cuts) {
+    const targets = nameServers.map(entry => entry.content.toLowerCase());
+    const hidden = published.filter(entry => {
+      if (entry.owner === cut) return !['NS', 'DS'].includes(entry.record.type);
+      if (!entry.owner.endsWith(`.${cut}`)) return false;
+      return !(['A', 'AAAA'].includes(entry.record.type) && targets.includes(entry.owner));
+    });
+    if (!hidden.length) continue;
+
+    const name = relative(cut);
+    const owners = [...new Set(hidden.map(entry => relative(entry.owner)))];
+    issues.push({
+      rule: 'occluded', severity: 'error', name, type: 'NS',
+      message: `${name} is delegated; records at or below it other than NS, DS and glue are not served (${owners.join(', ')})`,
+      recordIds: [...nameServers, ...hidden].map(entry => entry.record.id)
+    });
+  }
+
+  return issues;
+}
+
+// Rules the records `ids` break among `records`, as field errors for the
+// record form keyed by record id
+export function recordSetConflicts(zoneName: string, records: ZoneRecord[], ids: string[]): Record<string, FieldErrors> {
+  const conflicts: Record<string, FieldErrors> = {};
+
+  for (const issue of lintRecords(zoneName, records)) {
+    const field = RULE_FIELDS[issue.rule];
+    for (const id of issue.recordIds.filter(recordId => ids.includes(recordId))) {
+      const errors = conflicts[id] ?? (conflicts[id] = {});
+      if (!errors[field]) errors[field] = issue.message;
+    }
+  }
+
+  return conflicts;
+}
+
+// Rules a new or changed record would break next to the zone's other records,
+// as field errors for the record form. `id` is the record being updated,
+// `views` the names of the views it is scoped to.
+export function recordConflicts(zoneName: string, record: RecordInput, others: ZoneRecord[], id = '', views: string[] = []): FieldErrors {
+  const candidate: ZoneRecord = { ...record, id, ttl: record.ttl ?? DEFAULT_RECORD_TTL, views };
+  return recordSetConflicts(zoneName, [...others.filter(other => other.id !== id), candidate], [id])[id] ?? {};
+}
@@ -0,0 +1,243 @@
+// RFC 1035 master file parser. Handles $ORIGIN, $TTL, relative names, '@',
+// omitted owners, parentheses spanning lines, comments and quoted strings.
+
+export interface ParsedRecord {
+  // Absolute owner name, lower case, with the trailing dot
+  owner: string;
+  ttl: number;
+  type: string;
+  // RDATA fields; quoted strings are unquoted and unescaped
+  rdata: string[];
+  // Which RDATA fields were quoted in the file
+  quoted: boolean[];
+  // $ORIGIN in effect, for qualifying names inside the RDATA
+  origin: string;
+  line: number;
+}
+
+export interface ZoneParseError {
+  line: number;
+  message: string;
+}
+
+interface Token {
+  text: string;
+  quoted: boolean;
+}
+
+interface LogicalLine {
+  line: number;
+  // The line started with whitespace, so the previous owner applies
+  continuesOwner: boolean;
+  tokens: Token[];
+}
+
+const CLASSES = ['IN', 'CH', 'HS', 'ANY'];
+
+const TTL_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+
+// Plain seconds or BIND's unit form (1h30m, 2d, 1w)
+export function parseTTL(text: string): number | null {
+  if (/^\d+$/.test(text)) return Number(text);
+  if (!/^(\d+[smhdw])+$/i.test(text)) return null;
+
+  let seconds = 0;
+  for (const [, value, unit] of text.toLowerCase().matchAll(/(\d+)([smhdw])/g)) {
+    seconds += Number(value) * TTL_UNITS[unit];
+  }
+  return seconds;
+}
+
+// Splits the file into logical lines: parentheses join physical lines,
+// comments are dropped and quoted strings stay single tokens.
+function tokenize(text: string, errors: ZoneParseError[]): LogicalLine[] {
+  const lines: LogicalLine[] = [];
+  let current: LogicalLine | null = null;
+  let depth = 0;
+  let lineNo = 1;
+  let i = 0;
+
+  const startLine = () => {
+    if (!current) {
+      current = { line: lineNo, continuesOwner: false, tokens: [] };
+    }
+    return current;
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\n') {
+      lineNo++;
+      i++;
+      if (depth === 0 && current) {
+        if ((current as LogicalLine).tokens.length) lines.push(current);
+        current = null;
+      }
+      continue;
+    }
+
+    if (ch === ' ' || ch === '\t' || ch === '\r') {
+      // Leading whitespace on a fresh line means "same owner as before"
+      if (!current && depth === 0 && (i === 0 || text[i - 1] === '\n')) {
+        startLine().continuesOwner = true;
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === ';') {
+      while (i < text.length && text[i] !== '\n') i++;
+      continue;
+    }
+
+    if (ch === '(') {
+      startLine();
+      depth++;
+      i++;
+      continue;
+    }
+
+    if (ch === ')') {
+      if (depth === 0) errors.push({ line: lineNo, message: 'Unbalanced ")"' });
+      depth = Math.max(0, depth - 1);
+      i++;
+      continue;
+    }
+
+    const line = startLine();
+
+    if (ch === '"') {
+      // Collected as bytes so \DDD escapes of UTF-8 text decode correctly
+      const bytes: number[] = [];
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          // \DDD is a decimal byte value, anything else is taken literally
+          const digits = text.slice(i + 1, i + 4);
+          if (/^\d{3}$/.test(digits)) {
+            bytes.push(Number(digits) & 0xff);
+            i += 4;
+          } else {
+            bytes.push(...Buffer.from(text[i + 1], 'utf8'));
+            i += 2;
+          }
+          continue;
+        }
+        if (text[i] === '\n') lineNo++;
+        const char = String.fromCodePoint(text.codePointAt(i)!);
+        bytes.push(...Buffer.from(char, 'utf8'));
+        i += char.length;
+      }
+      if (i >= text.length) errors.push({ line: lineNo, message: 'Unterminated quoted string' });
+      i++;
+      line.tokens.push({ text: Buffer.from(bytes).toString('utf8'), quoted: true });
+      continue;
+    }
+
+    let word = '';
+    while (i < text.length && !/[\s;()"]/.test(text[i])) {
+      if (text[i] === '\\' && i + 1 < text.length) {
+        word += text.slice(i, i + 2);
+        i += 2;
+        continue;
+      }
+      word += text[i++];
+    }
+    line.tokens.push({ text: word, quoted: false });
+  }
+
+  if (depth > 0) errors.push({ line: lineNo, message: 'Unbalanced "("' });
+  if (current && (current as LogicalLine).tokens.length) lines.push(current);
+
+  return lines;
+}
+
+// Absolute form of a (possibly relative) domain name
+export function absoluteDomainName(name: string, origin: string) {
+  if (name === '@') return origin;
+  if (name.endsWith('.')) return name.toLowerCase();
+  return `${name}.${origin}`.toLowerCase();
+}
+
+// `origin` is the zone apex, with or without the trailing dot
+export function parseZoneFile(text: string, origin: string) {
+  const errors: ZoneParseError[] = [];
+  const records: ParsedRecord[] = [];
+
+  let currentOrigin = `${origin.replace(/\.$/, '').toLowerCase()}.`;
+  let defaultTtl: number | null = null;
+  let lastTtl: number | null = null;
+  let lastOwner: string | null = null;
+
+  for (const { line, continuesOwner, tokens } of tokenize(text, errors)) {
+    const first = tokens[0];
+
+    if (!first.quoted && first.text.startsWith('$')) {
+      const directive = first.text.toUpperCase();
+      if (directive === '$ORIGIN' && tokens[1]) {
+        currentOrigin = absoluteDomainName(tokens[1].text, currentOrigin);
+      } else if (directive === '$TTL' && tokens[1]) {
+        const ttl = parseTTL(tokens[1].text);
+        if (ttl === null) errors.push({ line, message: `Invalid $TTL "${tokens[1].text}"` });
+        else defaultTtl = ttl;
+      } else {
+        errors.push({ line, message: `Unsupported directive ${first.text}` });
+      }
+      continue;
+    }
+
+    let rest = tokens;
+    let owner: string | null = lastOwner;
+    if (!continuesOwner) {
+      owner = absoluteDomainName(first.text, currentOrigin);
+      rest = tokens.slice(1);
+    }
+    if (!owner) {
+      errors.push({ line, message: 'Record has no owner name' });
+      continue;
+    }
+
+    // [ttl] [class] type or [class] [ttl] type
+    let ttl: number | null = null;
+    let index = 0;
+    for (; index < rest.length && index < 2; index++) {
+      const token = rest[index].text;
+      const parsedTtl: number | null = ttl === null ? parseTTL(token) : null;
+      if (parsedTtl !== null) ttl = parsedTtl;
+      else if (!CLASSES.includes(token.toUpperCase())) break;
+    }
+
+    const typeToken = rest[index];
+    if (!typeToken || !/^[A-Z][A-Z0-9-]*$/i.test(typeToken.text)) {
+      errors.push({ line, message: `Missing or invalid record type${typeToken ? ` "${typeToken.text}"` : ''}` });
+      continue;
+    }
+
+    const rdata = rest.slice(index + 1);
+    if (rdata.length === 0) {
+      errors.push({ line, message: `${typeToken.text.toUpperCase()} record has no data` });
+      continue;
+    }
+
+    const recordTtl: number | null = ttl ?? defaultTtl ?? lastTtl;
+    if (recordTtl === null) {
+      errors.push({ line, message: 'No TTL given and no $TTL set' });
+      continue;
+    }
+
+    lastOwner = owner;
+    lastTtl = recordTtl;
+    records.push({
+      owner,
+      ttl: recordTtl,
+      type: typeToken.text.toUpperCase(),
+      rdata: rdata.map(token => token.text),
+      quoted: rdata.map(token => token.quoted),
+      origin: currentOrigin,
+      line
+    });
+  }
+
+  return { records, errors, origin: currentOrigin };
+}
@@ -0,0 +1,141 @@
+import { DriftCheck, ServerView, ZoneSnapshot } from './dnsBackend';
+import { RRSetDiff } from './rrset';
+import { queueSync } from './syncQueue';
+import { getDnsBackend, loadZones, publishedViews, zoneVariants } from './zoneSync';
+
+export interface ZoneDrift {
+  domainId: string;
+  zone: string;
+  // null when the server does not serve the zone at all
+  diffs: RRSetDiff[] | null;
+}
+
+// How a zone in the database compares with the zone files written for it (one
+// per view) and with what the server serves. Checks that could not run do not
+// count as drift.
+export interface ZoneDriftReport {
+  domainId: string;
+  zone: string;
+  inSync: boolean;
+  files: Array<DriftCheck & { view: string | null }>;
+  server: DriftCheck;
+  checkedAt: Date;
+}
+
+// Result of the last scheduled check of every primary zone
+export interface DriftReport {
+  checkedAt: Date;
+  zones: ZoneDriftReport[];
+}
+
+function unavailable(error: string): DriftCheck {
+  return { status: 'unavailable', diffs: [], error };
+}
+
+// Compares a zone with its published files and an AXFR from the server. With
+// views the server answers per client, so only the files are compared.
+export async function checkZoneDrift(zone: ZoneSnapshot, views: ServerView[]): Promise<ZoneDriftReport> {
+  const dns = getDnsBackend();
+  const variants = zoneVariants(zone, views);
+
+  const files: ZoneDriftReport['files'] = [];
+  for (const variant of variants) {
+    const check = dns.checkZoneFile
+      ? await dns.checkZoneFile(variant)
+      : unavailable(`The ${dns.name} backend does not write zone files`);
+    files.push({ view: variant.view ?? null, ...check });
+  }
+
+  let server: DriftCheck;
+  if (!dns.checkServedZone) server = unavailable(`The ${dns.name} backend cannot transfer zones`);
+  else if (views.length > 0) server = unavailable('With views the server answers per client; only the zone files are compared');
+  else server = await dns.checkServedZone(variants[0]);
+
+  const inSync = [...files, server].every(check => check.status === 'in-sync' || check.status === 'unavailable');
+  return { domainId: zone.id, zone: zone.name, inSync, files, server, checkedAt: new Date() };
+}
+
+// Periodically reports primary zones whose files or served copy differ from
+// the database, e.g. after a hand edit or a sync that failed halfway, and
+// republishes zones that drifted on backends that can repair it (e.g. changed
+// by hand with nsupdate).
+export class ZoneReconciler {
+  private interval: NodeJS.Timeout | null = null;
+  private lastReport: DriftReport | null = null;
+
+  constructor(private intervalMs: number = Number(process.env.DNS_RECONCILE_INTERVAL_MS || 600000)) {}
+
+  start() {
+    if (this.interval || !this.intervalMs) return;
+
+    console.log(`Starting zone reconciliation every ${this.intervalMs}ms`);
+    this.interval = setInterval(() => {
+      this.report()
+        .then(() => this.reconcile())
+        .catch(error => console.error('Zone reconciliation failed:', error));
+    }, this.intervalMs);
+  }
+
+  stop() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  // The last report, or null before the first check
+  latestReport() {
+    return this.lastReport;
+  }
+
+  // Checks every primary zone for drift and keeps the result
+  async report(): Promise<DriftReport> {
+    const views = await publishedViews();
+    const zones: ZoneDriftReport[] = [];
+    for (const zone of await loadZones({ zoneType: 'primary' })) {
+      zones.push(await checkZoneDrift(zone, views));
+    }
+
+    const drifted = zones.filter(zone => !zone.inSync);
+    if (drifted.length > 0) {
+      console.warn(`Drift report: ${drifted.length} of ${zones.length} zones out of sync: ${drifted.map(zone => zone.zone).join(', ')}`);
+    } else {
+      console.log(`Drift report: all ${zones.length} zones in sync`);
+    }
+
+    this.lastReport = { checkedAt: new Date(), zones };
+    return this.lastReport;
+  }
+
+  // Finds drifted zones and queues a sync for them; the database wins
+  async reconcile(): Promise<ZoneDrift[]> {
+    const dns = getDnsBackend();
+    if (!dns.detectDrift) return [];
+
+    const drifted: ZoneDrift[] = [];
+    for (const zone of await loadZones({ zoneType: 'primary' })) {
+      // Backends that report drift publish no views, only the unscoped records
+      const [published] = zoneVariants(zone, []);
+      const diffs = await dns.detectDrift(published);
+      if (diffs && diffs.length === 0) continue;
+
+      drifted.push({ domainId: zone.id, zone: zone.name, diffs });
+      console.warn(diffs
+        ? `Zone ${zone.name} drifted: ${diffs.map(({ before, after }) => `${(after || before)?.name} ${(after || before)?.type}`).join(', ')}`
+        : `Zone ${zone.name} is not served by ${dns.name}`);
+    }
+
+    if (drifted.length > 0) {
+      await queueSync({ domainIds: drifted.map(drift => drift.domainId) });
+    }
+
+    return drifted;
+  }
+}
+
+let reconciler: ZoneReconciler | null = null;
+
+export function getZoneReconciler() {
+  if (!reconciler) reconciler = new ZoneReconciler();
+  return reconciler;
+}
@@ -0,0 +1,178 @@
+import { ZoneSnapshot } from './dnsBackend';
+import { SOAConfig, glueOwner } from './soaProfile';
+import { RDATA_TYPES, RData, formatRData } from './rdata';
+import { zoneFileOwner } from './ownerName';
+import { formatTxt } from './txt';
+
+// A single resource record. Owner names are relative to the zone ('@' for the
+// apex) unless they end with a dot; a missing TTL means the zone default.
+export interface ResourceRecord {
+  name: string;
+  ttl?: number;
+  type: string;
+  content: string;
+}
+
+// Renders a zone as an RFC 1035 master file. Shared by every driver that
+// needs a text form of the zone (BIND, dry run, exports).
+export function renderZoneFile(zone: ZoneSnapshot) {
+  let zoneContent = renderSOASection(zone.name, zone.soa, zone.serial);
+
+  for (const rr of zoneResourceRecords(zone)) {
+    const ttl = rr.ttl !== undefined ? `${rr.ttl}     ` : '';
+    zoneContent += `${rr.name}       ${ttl}IN      ${rr.type}     ${rr.content}\n`;
+  }
+
+  return zoneContent;
+}
+
+// The zone's records apart from the SOA/NS/glue section, in render order
+export function zoneResourceRecords(zone: Pick<ZoneSnapshot, 'name' | 'records' | 'loadBalancers'>): ResourceRecord[] {
+  const records: ResourceRecord[] = [];
+
+  // Add DNS records
+  for (const record of zone.records) {
+    // Load balanced kayıtları atla, bunlar ayrıca işlenecek
+    if (record.isLoadBalanced) continue;
+    
+    const ttl = record.ttl || 300;
+    const priority = record.priority != null ? `${record.priority} ` : '';
+    const weight = record.weight != null ? `${record.weight} ` : '';
+    const port = record.port != null ? `${record.port} ` : '';
+    
+    // Stored names are relative to the zone; old absolute names outside it are skipped
+    const recordName = zoneFileOwner(record.name, zone.name);
+    if (recordName === null) {
+      console.log(`Skipping record ${record.name} as it's not a subdomain of ${zone.name}`);
+      continue;
+    }
+
+    // Handle MX records - they need a priority number
+    if (record.type === 'MX') {
+      const mxPriority = record.priority ?? 10;
+      records.push({ name: recordName, ttl, type: record.type, content: `${mxPriority} ${record.value}` });
+    } else if (record.type === 'CNAME') {
+      // For CNAME records, ensure the target doesn't have the domain appended
+      let target = record.value;
+      
+      // If the target already ends with the domain name, remove it
+      if (target.endsWith(`.${zone.name}`)) {
+        target = target.slice(0, -(zone.name.length + 1));
+      }
+      
+      // If the target doesn't end with a dot, add the domain
+      if (!target.endsWith('.')) {
+        target = target + '.' + zone.name + '.';
+      }
+      
+      records.push({ name: recordName, ttl, type: record.type, content: target });
+    } else if (record.type === 'TXT') {
+      records.push({ name: recordName, ttl, type: record.type, content: formatTxt(record.value) });
+    } else if (RDATA_TYPES[record.type] && record.rdata) {
+      // CAA, TLSA, SSHFP, NAPTR, DS, HTTPS and SVCB are written from their fields
+      records.push({ name: recordName, ttl, type: record.type, content: formatRData(record.type, record.rdata as RData) });
+    } else {
+      records.push({ name: recordName, ttl, type: record.type, content: `${priority}${weight}${port}${record.value}` });
+    }
+  }
+
+  // Add DNS load balancer records
+  for (const lb of zone.loadBalancers) {
+    if (lb.isActive && lb.servers.length > 0) {
+      const healthyServers = lb.servers.filter(server => 
+        server.isActive && server.health && server.health.status === 'healthy'
+      );
+      
+      if (healthyServers.length === 0) continue;
+
+      // Load balancing algoritmasına göre DNS kayıtları oluştur
+      switch (lb.algorithm) {
+        case 'round-robin':
+          // Her sağlıklı sunucu için A kaydı
+          for (const server of healthyServers) {
+            records.push({ name: lb.name, type: 'A', content: server.ip });
+          }
+          break;
+
+        case 'weighted':
+          // Weight'e göre birden fazla kayıt
+          for (const server of healthyServers) {
+            const recordCount = Math.floor(server.weight / 10);
+            for (let i = 0; i < recordCount; i++) {
+              records.push({ name: lb.name, type: 'A', content: server.ip });
+            }
+          }
+          break;
+
+        case 'health-based':
+          // En sağlıklı sunucular için kayıt
+          const sortedServers = healthyServers.sort((a, b) => {
+            const aHealth = a.health || { responseTime: 0 };
+            const bHealth = b.health || { responseTime: 0 };
+            return (aHealth.responseTime || 0) - (bHealth.responseTime || 0);
+          });
+          
+          const topServers = sortedServers.slice(0, 3);
+          for (const server of topServers) {
+            records.push({ name: lb.name, type: 'A', content: server.ip });
+          }
+          break;
+      }
+
+      // SRV kayıtları (eğer birden fazla sunucu varsa)
+      if (healthyServers.length > 1) {
+        for (let i = 0; i < healthyServers.length; i++) {
+          const server = healthyServers[i];
+          const weight = Math.floor((1 / healthyServers.length) * 100);
+          records.push({ name: `_${lb.name}._tcp.${zone.name}.`, type: 'SRV', content: `0 ${weight} ${server.port} ${server.ip}` });
+        }
+      }
+    }
+  }
+
+  return records;
+}
+
+// SOA, apex NS set and glue for in-zone nameservers
+function renderSOASection(domainName: string, soa: SOAConfig, serial: number) {
+  let section = `$TTL ${soa.defaultTtl}
+@       IN      SOA     ${soa.primaryNs} ${soa.contact} (
+                        ${serial}      ; Serial
+                        ${soa.refresh}            ; Refresh
+                        ${soa.retry}            ; Retry
+                        ${soa.expire}         ; Expire
+                        ${soa.minimum} )         ; Negative Cache TTL
+
+`;
+
+  for (const rr of apexResourceRecords(domainName, soa)) {
+    section += `${rr.name}       IN      ${rr.type}     ${rr.content}\n`;
+  }
+
+  return section + '\n';
+}
+
+// NS set, optional apex address and glue for in-zone nameservers
+export function apexResourceRecords(domainName: string, soa: SOAConfig): ResourceRecord[] {
+  const records: ResourceRecord[] = [];
+
+  for (const ns of soa.nameServers) {
+    records.push({ name: '@', type: 'NS', content: ns.hostname });
+  }
+  if (soa.apexAddress) {
+    records.push({ name: '@', type: 'A', content: soa.apexAddress });
+  }
+  for (const ns of soa.nameServers) {
+    const owner = glueOwner(ns.hostname, domainName);
+    if (owner === null) continue;
+    if (ns.ipv4) records.push({ name: owner, type: 'A', content: ns.ipv4 });
+    if (ns.ipv6) records.push({ name: owner, type: 'AAAA', content: ns.ipv6 });
+  }
+
+  return records;
+}
+
+// SOA RDATA on a single line
+export function soaContent(soa: SOAConfig, serial: number) {
+  return `${soa.primaryNs} ${soa.contact} ${serial} ${soa.refresh} ${soa.retry} ${soa.expire} ${soa.minimum}`;
+}
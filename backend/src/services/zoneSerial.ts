@@ -0,0 +1,69 @@
+import { PrismaClient } from '@prisma/client';
+import { createHash } from 'crypto';
+
+const prisma = new PrismaClient();
+
+// Serials are stored in a signed 32-bit column, so they must stay below this
+const MAX_SERIAL = 2147483647;
+
+interface SerialState {
+  id: string;
+  serial: number;
+  zoneHash?: string | null;
+}
+
+// YYYYMMDD00 for the given day (UTC)
+function dateSerial(now: Date): number {
+  const datePart = now.getUTCFullYear() * 10000 + (now.getUTCMonth() + 1) * 100 + now.getUTCDate();
+  return datePart * 100;
+}
+
+// Next YYYYMMDDnn serial. The serial never goes backwards: once nn passes 99
+// on a busy day it simply rolls into the following day's range, and the date
+// catches up again once the clock passes it.
+export function nextSerial(current: number, now: Date = new Date()): number {
+  const today = dateSerial(now);
+  const next = current < today ? today : current + 1;
+
+  if (next > MAX_SERIAL) {
+    throw new Error(`SOA serial overflow: ${current} cannot be incremented`);
+  }
+
+  return next;
+}
+
+export function hashZoneContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export interface SerialPlan {
+  serial: number;
+  zoneHash: string;
+  changed: boolean;
+}
+
+// Works out the serial to publish for a zone without persisting it. `content`
+// must be the rendered zone with a fixed placeholder serial so that only real
+// changes bump it.
+export function planZoneSerial(domain: SerialState, content: string): SerialPlan {
+  const zoneHash = hashZoneContent(content);
+
+  if (domain.serial > 0 && domain.zoneHash === zoneHash) {
+    return { serial: domain.serial, zoneHash, changed: false };
+  }
+
+  return { serial: nextSerial(domain.serial), zoneHash, changed: true };
+}
+
+// Persists a planned serial once the zone it belongs to is live
+export async function commitZoneSerial(domain: SerialState, plan: SerialPlan) {
+  if (!plan.changed) return;
+
+  await prisma.domain.update({
+    where: { id: domain.id },
+    data: { serial: plan.serial, zoneHash: plan.zoneHash }
+  });
+
+  domain.serial = plan.serial;
+  domain.zoneHash = plan.zoneHash;
+}
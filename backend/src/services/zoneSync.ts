@@ -0,0 +1,211 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AclEntry, DEFAULT_VIEW, DnsBackend, ServerConfig, ServerView, ZoneSnapshot, ZoneType, ZoneValidationError } from './dnsBackend';
+import { Bind9Backend } from './bind9';
+import { DryBackend } from './dryBackend';
+import { NsupdateBackend } from './nsupdateBackend';
+import { PowerDnsBackend } from './powerdnsBackend';
+import { delegationRecords } from './delegation';
+import { classlessDelegation, classlessRange } from './reverseZone';
+import { toSOAConfig } from './soaProfile';
+import { inView } from './views';
+import { SerialPlan, planZoneSerial, commitZoneSerial } from './zoneSerial';
+
+const prisma = new PrismaClient();
+
+let backend: DnsBackend | null = null;
+
+// Driver selected with DNS_BACKEND (bind, nsupdate, powerdns, dry)
+export function createDnsBackend(name: string = process.env.DNS_BACKEND || 'bind'): DnsBackend {
+  switch (name) {
+    case 'bind':
+      return new Bind9Backend();
+    case 'nsupdate':
+      return new NsupdateBackend();
+    case 'powerdns':
+      return new PowerDnsBackend();
+    case 'dry':
+      return new DryBackend();
+    default:
+      throw new Error(`Unknown DNS backend: ${name}`);
+  }
+}
+
+export function getDnsBackend() {
+  if (!backend) backend = createDnsBackend();
+  return backend;
+}
+
+const zoneInclude = {
+  records: {
+    include: { views: { select: { name: true } } },
+    orderBy: { createdAt: 'asc' }
+  },
+  soaProfile: {
+    include: { nameServers: true }
+  },
+  delegations: {
+    include: { nameServers: { orderBy: { position: 'asc' } } }
+  },
+  loadBalancers: {
+    include: {
+      servers: {
+        include: {
+          health: true
+        }
+      }
+    }
+  }
+} satisfies Prisma.DomainInclude;
+
+// RFC 2317 classless reverse zones, whose delegation their /24 publishes
+async function loadClasslessZones() {
+  const domains = await prisma.domain.findMany({
+    where: { name: { contains: '-', endsWith: '.in-addr.arpa' } },
+    select: { name: true, soaProfile: { include: { nameServers: true } } }
+  });
+  return domains
+    .filter(domain => classlessRange(domain.name))
+    .map(domain => ({ name: domain.name, soa: toSOAConfig(domain.name, domain.soaProfile) }));
+}
+
+// Loads zones from the database in the shape the drivers expect, with the NS
+// and glue records of their delegations. /24 reverse zones get the delegation
+// records of their classless children.
+export async function loadZones(where: Prisma.DomainWhereInput = {}): Promise<ZoneSnapshot[]> {
+  const domains = await prisma.domain.findMany({ where, include: zoneInclude, orderBy: { name: 'asc' } });
+  const classless = domains.some(domain => domain.name.endsWith('.in-addr.arpa')) ? await loadClasslessZones() : [];
+
+  return domains.map(({ soaProfile, records, delegations, ...domain }) => ({
+    ...domain,
+    records: [
+      ...records.map(({ views, ...record }) => ({ ...record, views: views.map(view => view.name) })),
+      ...delegationRecords(domain.name, delegations),
+      ...classlessDelegation(domain.name, classless)
+    ],
+    soa: toSOAConfig(domain.name, soaProfile)
+  }));
+}
+
+// The copies of a zone to publish, one per view with the records served
+// there. Without views there is a single copy with the unscoped records.
+export function zoneVariants(zone: ZoneSnapshot, views: ServerView[]): ZoneSnapshot[] {
+  if (views.length === 0) {
+    return [{ ...zone, records: zone.records.filter(record => !record.views?.length) }];
+  }
+  return [...views.map(view => view.name), DEFAULT_VIEW].map(view => ({
+    ...zone,
+    view,
+    records: zone.records.filter(record => inView(record.views, view))
+  }));
+}
+
+// Views the zones are published in; none when the backend has no views
+export async function publishedViews(): Promise<ServerView[]> {
+  if (!getDnsBackend().supportsViews) return [];
+  return prisma.view.findMany({ select: { name: true, matchClients: true }, orderBy: [{ position: 'asc' }, { name: 'asc' }] });
+}
+
+function aclEntries(entries: Array<{ kind: string; address: string | null; key: { name: string } | null }>, kind: string): AclEntry[] {
+  return entries
+    .filter(entry => entry.kind === kind)
+    .map(entry => ({ address: entry.address, key: entry.key?.name ?? null }));
+}
+
+// Every managed zone with its server settings, all TSIG keys and the views,
+// for backends that keep a server configuration. Zones with DNSSEC turned off
+// stay 'unsigning' while keys are left.
+async function loadServerConfig(): Promise<ServerConfig> {
+  const domains = await prisma.domain.findMany({
+    select: {
+      name: true,
+      zoneType: true,
+      primaries: true,
+      transferKey: true,
+      dnssecEnabled: true,
+      aclEntries: { select: { kind: true, address: true, key: { select: { name: true } } }, orderBy: { position: 'asc' } },
+      _count: { select: { dnssecKeys: true } }
+    },
+    orderBy: { name: 'asc' }
+  });
+  const keys = await prisma.tSIGKey.findMany({ select: { name: true, algorithm: true, secret: true }, orderBy: { name: 'asc' } });
+  const views = await prisma.view.findMany({ select: { name: true, matchClients: true }, orderBy: [{ position: 'asc' }, { name: 'asc' }] });
+
+  return {
+    zones: domains.map(domain => ({
+      name: domain.name,
+      type: domain.zoneType as ZoneType,
+      primaries: domain.primaries,
+      transferKey: domain.transferKey,
+      dnssec: domain.dnssecEnabled ? 'signed' : domain._count.dnssecKeys > 0 ? 'unsigning' : 'off',
+      allowTransfer: aclEntries(domain.aclEntries, 'transfer'),
+      alsoNotify: aclEntries(domain.aclEntries, 'notify')
+    })),
+    keys,
+    views
+  };
+}
+
+export interface SyncOptions {
+  // Only publish these domains; all zones are published when omitted
+  domainIds?: string[];
+  // Zones that were deleted or renamed away and must be dropped from the backend
+  removed?: string[];
+}
+
+// Publishes zones through the configured driver. Serials are decided here and
+// only recorded once the backend has accepted and reloaded them. Callers go
+// through the sync queue (syncQueue.ts) so only one sync runs at a time.
+// Secondary zones are only listed in the server configuration; their content
+// comes from the primaries. With views every zone is published once per view,
+// all copies sharing one serial.
+export async function syncZones(options: SyncOptions = {}) {
+  const dns = getDnsBackend();
+
+  try {
+    const zones = await loadZones({
+      zoneType: 'primary',
+      ...(options.domainIds ? { id: { in: options.domainIds } } : {})
+    });
+    const config = await loadServerConfig();
+    const server = { ...config, views: dns.supportsViews ? config.views : [] };
+    const primaryNames = server.zones.filter(zone => zone.type === 'primary').map(zone => zone.name);
+
+    console.log(`Syncing ${zones.length} of ${server.zones.length} zones (${dns.name} backend)...`);
+
+    // A zone that became secondary loses the file published for it, so the
+    // first transfer is not compared against our serial
+    for (const zoneName of options.removed || []) {
+      if (!primaryNames.includes(zoneName)) await dns.removeZone(zoneName);
+    }
+
+    const plans: Array<[ZoneSnapshot, SerialPlan]> = [];
+    const changed: string[] = [];
+    for (const zone of zones) {
+      const variants = zoneVariants(zone, server.views);
+      // Render once with a placeholder serial to detect whether anything changed
+      const plan = planZoneSerial(zone, variants.map(variant => dns.renderZone({ ...variant, serial: 0 })).join('\n'));
+      let zoneChanged = false;
+      try {
+        for (const variant of variants) {
+          if (await dns.applyZone({ ...variant, serial: plan.serial })) zoneChanged = true;
+        }
+      } catch (error) {
+        if (error instanceof ZoneValidationError) error.domainId = zone.id;
+        throw error;
+      }
+      if (zoneChanged) changed.push(zone.name);
+      plans.push([zone, plan]);
+    }
+
+    await dns.reload(server, changed);
+
+    for (const [zone, plan] of plans) {
+      await commitZoneSerial(zone, plan);
+    }
+
+    console.log('Zone sync completed successfully');
+  } catch (error) {
+    console.error('Error syncing zones:', error);
+    throw error;
+  }
+}
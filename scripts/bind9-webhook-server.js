@@ -14,12 +14,12 @@ const NAMED_CONF = '/etc/bind/named.conf.local';
 // Webhook endpoint for Supabase
 app.post('/sync-bind9', async (req, res) => {
   try {
-    const { action, domain, records = [] } = req.body;
+    const { action, domain, records = [], soa } = req.body;
     
     console.log(`BIND9 Sync: ${action} for domain ${domain}`);
     
     if (action === 'add_domain' || action === 'update_domain') {
-      await createZoneFile(domain, records);
+      await createZoneFile(domain, records, soa);
       if (action === 'add_domain') {
         await addZoneToNamedConf(domain);
       }
@@ -50,31 +50,87 @@ app.post('/sync-bind9', async (req, res) => {
   }
 });
 
-async function createZoneFile(domain, records) {
+// Same defaults and placeholders as the backend (DNS_* variables, {domain})
+function defaultSoa(domain) {
+  const expand = (value) => value.split('{domain}').join(domain);
+  const nameServers = [];
+  for (const entry of (process.env.DNS_NAMESERVERS || 'ns1.{domain}.=127.0.0.1').split(',')) {
+    const [hostname, address] = entry.trim().split('=');
+    if (!hostname) continue;
+    let server = nameServers.find(ns => ns.hostname === expand(hostname));
+    if (!server) {
+      server = { hostname: expand(hostname) };
+      nameServers.push(server);
+    }
+    if (address && address.includes(':')) server.ipv6 = address;
+    else if (address) server.ipv4 = address;
+  }
+
+  return {
+    primaryNs: expand(process.env.DNS_PRIMARY_NS || 'ns1.{domain}.'),
+    contact: expand(process.env.DNS_SOA_CONTACT || 'admin.{domain}.'),
+    refresh: Number(process.env.DNS_SOA_REFRESH || 3600),
+    retry: Number(process.env.DNS_SOA_RETRY || 1800),
+    expire: Number(process.env.DNS_SOA_EXPIRE || 1209600),
+    minimum: Number(process.env.DNS_SOA_MINIMUM || 86400),
+    defaultTtl: Number(process.env.DNS_DEFAULT_TTL || 86400),
+    apexAddress: process.env.DNS_APEX_ADDRESS || null,
+    nameServers
+  };
+}
+
+// Absolute form of a name, the backend's rule: names without a dot are
+// relative to the zone, anything else is already fully qualified
+function qualifyName(name, domain) {
+  if (name === '@') return `${domain}.`;
+  if (name.endsWith('.')) return name;
+  if (!name.includes('.')) return `${name}.${domain}.`;
+  return `${name}.`;
+}
+
+// Owner name of an in-zone nameserver, or null if it needs no glue here
+function glueOwner(hostname, domain) {
+  const fqdn = qualifyName(hostname, domain).toLowerCase();
+  const origin = `${domain.toLowerCase()}.`;
+  if (fqdn === origin) return '@';
+  if (fqdn.endsWith(`.${origin}`)) return fqdn.slice(0, -(origin.length + 1));
+  return null;
+}
+
+async function createZoneFile(domain, records, soa = defaultSoa(domain)) {
   const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+/, '');
-  const serial = timestamp.substring(0, 10);
+  const serial = soa.serial || `${timestamp.substring(0, 8)}01`;
   
   let zoneContent = `; Zone file for ${domain}
 ; Generated automatically by DNS Manager
 ; Serial: ${serial}
 
-$TTL 86400
-@       IN      SOA     ns1.${domain}. admin.${domain}. (
-                        ${serial}01    ; Serial (YYYYMMDDnn)
-                        3600            ; Refresh (1 hour)
-                        1800            ; Retry (30 minutes)
-                        1209600         ; Expire (2 weeks)
-                        86400 )         ; Minimum TTL (1 day)
+$TTL ${soa.defaultTtl}
+@       IN      SOA     ${qualifyName(soa.primaryNs, domain)} ${qualifyName(soa.contact, domain)} (
+                        ${serial}    ; Serial (YYYYMMDDnn)
+                        ${soa.refresh}            ; Refresh
+                        ${soa.retry}            ; Retry
+                        ${soa.expire}         ; Expire
+                        ${soa.minimum} )         ; Minimum TTL
 
 ; Name servers
-@       IN      NS      ns1.${domain}.
-@       IN      NS      ns2.${domain}.
+`;
 
-; Default A records for name servers
-ns1     IN      A       192.168.1.1
-ns2     IN      A       192.168.1.2
+  for (const ns of soa.nameServers) {
+    zoneContent += `@       IN      NS      ${qualifyName(ns.hostname, domain)}\n`;
+  }
+  if (soa.apexAddress) {
+    zoneContent += `@       IN      A       ${soa.apexAddress}\n`;
+  }
 
-`;
+  zoneContent += `\n; Glue records for in-zone name servers\n`;
+  for (const ns of soa.nameServers) {
+    const owner = glueOwner(ns.hostname, domain);
+    if (owner === null) continue;
+    if (ns.ipv4) zoneContent += `${owner.padEnd(15)} IN      A       ${ns.ipv4}\n`;
+    if (ns.ipv6) zoneContent += `${owner.padEnd(15)} IN      AAAA    ${ns.ipv6}\n`;
+  }
+  zoneContent += '\n';
 
   // Add DNS records
   for (const record of records) {
@@ -0,0 +1,154 @@
+#!/usr/bin/env node
+
+// Minimal in-memory stand-in for the PowerDNS Authoritative HTTP API, enough
+// to run the backend with DNS_BACKEND=powerdns locally. Zones are lost when
+// the process exits.
+//
+//   PDNS_STUB_PORT=8081 PDNS_API_KEY=secret node scripts/powerdns-stub-server.js
+
+import http from 'http';
+
+const PORT = Number(process.env.PDNS_STUB_PORT || 8081);
+const API_KEY = process.env.PDNS_API_KEY || '';
+
+const zones = new Map();
+
+function send(res, status, body) {
+  if (body === undefined) {
+    res.writeHead(status);
+    return res.end();
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+// The same kind of checks PowerDNS applies before accepting an RRset
+function validateRRSet(zoneName, rrset) {
+  if (!rrset.name || !rrset.name.endsWith('.')) {
+    return `Name '${rrset.name}' is not canonical`;
+  }
+  if (rrset.name !== zoneName && !rrset.name.endsWith(`.${zoneName}`)) {
+    return `Name '${rrset.name}' is out of zone`;
+  }
+  for (const record of rrset.records || []) {
+    if (rrset.type === 'A' && !/^(\d{1,3})(\.\d{1,3}){3}$/.test(record.content)) {
+      return `Record ${rrset.name}/A '${record.content}': Not in expected format`;
+    }
+    if (rrset.type === 'AAAA' && !record.content.includes(':')) {
+      return `Record ${rrset.name}/AAAA '${record.content}': Not in expected format`;
+    }
+    if (['CNAME', 'NS', 'PTR'].includes(rrset.type) && !record.content.endsWith('.')) {
+      return `Record ${rrset.name}/${rrset.type} '${record.content}': Not in expected format`;
+    }
+  }
+  if (rrset.type === 'CNAME' && (rrset.records || []).length > 1) {
+    return `RRset ${rrset.name} IN CNAME: only one CNAME record is allowed`;
+  }
+  return null;
+}
+
+function stripChangetype({ changetype, ...rrset }) {
+  return { ...rrset, records: (rrset.records || []).map(r => ({ content: r.content, disabled: !!r.disabled })) };
+}
+
+async function handle(req, res) {
+  if (API_KEY && req.headers['x-api-key'] !== API_KEY) {
+    return send(res, 401, { error: 'Unauthorized' });
+  }
+
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const match = url.pathname.match(/^\/api\/v1\/servers\/[^/]+\/zones(?:\/([^/]+))?(\/notify)?$/);
+  if (!match) return send(res, 404, { error: 'Not Found' });
+
+  const zoneId = match[1] && decodeURIComponent(match[1]);
+  const zone = zoneId && zones.get(zoneId);
+
+  if (!zoneId) {
+    if (req.method === 'GET') {
+      return send(res, 200, [...zones.values()].map(({ rrsets, ...summary }) => summary));
+    }
+    if (req.method === 'POST') {
+      const body = await readBody(req);
+      if (!body.name || !body.name.endsWith('.')) return send(res, 422, { error: 'Zone name must be canonical' });
+      if (zones.has(body.name)) return send(res, 409, { error: 'Conflict' });
+      for (const rrset of body.rrsets || []) {
+        const error = validateRRSet(body.name, rrset);
+        if (error) return send(res, 422, { error });
+      }
+      const created = {
+        id: body.name,
+        name: body.name,
+        kind: body.kind || 'Native',
+        serial: 0,
+        rrsets: (body.rrsets || []).map(stripChangetype)
+      };
+      zones.set(body.name, created);
+      console.log(`Created zone ${body.name}`);
+      return send(res, 201, created);
+    }
+    return send(res, 405, { error: 'Method Not Allowed' });
+  }
+
+  if (!zone) return send(res, 404, { error: 'Could not find domain' });
+
+  if (match[2]) {
+    if (req.method !== 'PUT') return send(res, 405, { error: 'Method Not Allowed' });
+    console.log(`Notify queued for ${zoneId}`);
+    return send(res, 200, { result: 'Notification queued' });
+  }
+
+  switch (req.method) {
+    case 'GET':
+      return send(res, 200, zone);
+    case 'DELETE':
+      zones.delete(zoneId);
+      console.log(`Deleted zone ${zoneId}`);
+      return send(res, 204);
+    case 'PATCH': {
+      const body = await readBody(req);
+      const rrsets = zone.rrsets.slice();
+      for (const change of body.rrsets || []) {
+        const index = rrsets.findIndex(r => r.name === change.name && r.type === change.type);
+        if (change.changetype === 'DELETE') {
+          if (index >= 0) rrsets.splice(index, 1);
+        } else if (change.changetype === 'REPLACE') {
+          const error = validateRRSet(zone.name, change);
+          if (error) return send(res, 422, { error });
+          if (index >= 0) rrsets[index] = stripChangetype(change);
+          else rrsets.push(stripChangetype(change));
+        } else {
+          return send(res, 422, { error: `Unknown changetype '${change.changetype}'` });
+        }
+      }
+      zone.rrsets = rrsets;
+      console.log(`Patched ${(body.rrsets || []).length} RRsets in ${zoneId}`);
+      return send(res, 204);
+    }
+    default:
+      return send(res, 405, { error: 'Method Not Allowed' });
+  }
+}
+
+http.createServer((req, res) => {
+  handle(req, res).catch(error => {
+    console.error('PowerDNS stub error:', error);
+    send(res, 400, { error: error.message });
+  });
+}).listen(PORT, () => {
+  console.log(`PowerDNS API stub listening on port ${PORT}`);
+});
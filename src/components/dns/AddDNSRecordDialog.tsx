@@ -1,8 +1,9 @@
 import { useState } from "react";
-import { createDNSRecord } from "@/lib/api";
+import { ApiError, createDNSRecord, previewRecordChanges, RecordChangePreview, View } from "@/lib/api";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Dialog,
@@ -14,6 +15,12 @@ import {
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
+import { DNS_RECORD_TYPES, RECORD_DATA_FIELDS, defaultRecordData } from "@/lib/recordTypes";
+import { RecordDataFields } from "./RecordDataFields";
+import { TxtValueInput } from "./TxtValueInput";
+import { ViewCheckboxes } from "./ViewCheckboxes";
+import { ZoneChangePreview } from "./ZoneChangePreview";
+import { toUnicodeName } from "@/lib/idn";
 
 interface Domain {
   id: string;
@@ -24,12 +31,11 @@ interface AddDNSRecordDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   domain: Domain;
+  views: View[];
   onRecordAdded: () => void;
 }
 
-const DNS_RECORD_TYPES = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'NS', 'PTR', 'SRV'];
-
-export const AddDNSRecordDialog = ({ open, onOpenChange, domain, onRecordAdded }: AddDNSRecordDialogProps) => {
+export const AddDNSRecordDialog = ({ open, onOpenChange, domain, views, onRecordAdded }: AddDNSRecordDialogProps) => {
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
@@ -40,11 +46,23 @@ export const AddDNSRecordDialog = ({ open, onOpenChange, domain, onRecordAdded }
     weight: '',
     port: '',
   });
+  const [rdata, setRdata] = useState<Record<string, string>>({});
+  const [autoPtr, setAutoPtr] = useState(false);
+  const [viewIds, setViewIds] = useState<string[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  // Set once the change has been previewed; the next submit saves it
+  const [preview, setPreview] = useState<RecordChangePreview | null>(null);
   const { toast } = useToast();
 
+  const handleOpenChange = (value: boolean) => {
+    if (!value) setPreview(null);
+    onOpenChange(value);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
+    setErrors({});
 
     try {
       const recordData: any = {
@@ -52,8 +70,19 @@ export const AddDNSRecordDialog = ({ open, onOpenChange, domain, onRecordAdded }
         type: formData.type,
         value: formData.value.trim(),
         ttl: formData.ttl,
+        viewIds,
       };
 
+      // A and AAAA records can keep the PTR for their address
+      if (formData.type === 'A' || formData.type === 'AAAA') {
+        recordData.autoPtr = autoPtr;
+      }
+
+      // Structured types send their fields, the backend builds the value
+      if (RECORD_DATA_FIELDS[formData.type]) {
+        recordData.rdata = rdata;
+      }
+
       // Add optional fields for MX and SRV records
       if (formData.type === 'MX' && formData.priority) {
         recordData.priority = parseInt(formData.priority);
@@ -65,6 +94,17 @@ export const AddDNSRecordDialog = ({ open, onOpenChange, domain, onRecordAdded }
         if (formData.port) recordData.port = parseInt(formData.port);
       }
 
+      if (!preview) {
+        const result = await previewRecordChanges(domain.id, [{ action: 'create', record: recordData }]);
+        const [failed] = result.errors;
+        if (failed?.fields) {
+          setErrors(failed.fields);
+          return;
+        }
+        setPreview(result);
+        return;
+      }
+
       await createDNSRecord(domain.id, recordData);
 
       toast({
@@ -81,8 +121,18 @@ export const AddDNSRecordDialog = ({ open, onOpenChange, domain, onRecordAdded }
         weight: '',
         port: '',
       });
+      setRdata({});
+      setAutoPtr(false);
+      setViewIds([]);
+      setPreview(null);
       onRecordAdded();
     } catch (error: any) {
+      // Validation errors are shown next to the fields they belong to
+      if (error instanceof ApiError && error.fields) {
+        setErrors(error.fields);
+        setPreview(null);
+        return;
+      }
       toast({
         variant: "destructive",
         title: "Error",
@@ -93,22 +143,25 @@ export const AddDNSRecordDialog = ({ open, onOpenChange, domain, onRecordAdded }
     }
   };
 
+  const structured = !!RECORD_DATA_FIELDS[formData.type];
   const showPriority = formData.type === 'MX' || formData.type === 'SRV';
   const showWeight = formData.type === 'SRV';
   const showPort = formData.type === 'SRV';
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
           <DialogTitle>Add DNS Record</DialogTitle>
           <DialogDescription>
-            Add a new DNS record for {domain.name}
+            {preview
+              ? "Review the change to the zone file before adding the record"
+              : `Add a new DNS record for ${toUnicodeName(domain.name)}`}
           </DialogDescription>
         </DialogHeader>
         
         <form onSubmit={handleSubmit}>
-          <div className="grid gap-4 py-4">
+          <div className={preview ? "hidden" : "grid gap-4 py-4"}>
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="name">Name</Label>
@@ -119,10 +172,17 @@ export const AddDNSRecordDialog = ({ open, onOpenChange, domain, onRecordAdded }
                   onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
                   required
                 />
+                {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
               </div>
               <div className="space-y-2">
                 <Label htmlFor="type">Type</Label>
-                <Select value={formData.type} onValueChange={(value) => setFormData(prev => ({ ...prev, type: value }))}>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value) => {
+                    setFormData(prev => ({ ...prev, type: value }));
+                    setRdata(defaultRecordData(value));
+                  }}
+                >
                   <SelectTrigger>
                     <SelectValue placeholder="Select type" />
                   </SelectTrigger>
@@ -134,19 +194,37 @@ export const AddDNSRecordDialog = ({ open, onOpenChange, domain, onRecordAdded }
                     ))}
                   </SelectContent>
                 </Select>
+                {errors.type && <p className="text-sm text-destructive">{errors.type}</p>}
               </div>
             </div>
             
-            <div className="space-y-2">
-              <Label htmlFor="value">Value</Label>
-              <Input
-                id="value"
-                placeholder="Enter the record value"
-                value={formData.value}
-                onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
-                required
+            {structured ? (
+              <RecordDataFields
+                type={formData.type}
+                values={rdata}
+                onChange={(key, value) => setRdata(prev => ({ ...prev, [key]: value }))}
+                errors={errors}
               />
-            </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="value">Value</Label>
+                {formData.type === 'TXT' ? (
+                  <TxtValueInput
+                    value={formData.value}
+                    onChange={(value) => setFormData(prev => ({ ...prev, value }))}
+                  />
+                ) : (
+                  <Input
+                    id="value"
+                    placeholder="Enter the record value"
+                    value={formData.value}
+                    onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
+                    required
+                  />
+                )}
+                {errors.value && <p className="text-sm text-destructive">{errors.value}</p>}
+              </div>
+            )}
 
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
@@ -155,10 +233,11 @@ export const AddDNSRecordDialog = ({ open, onOpenChange, domain, onRecordAdded }
                   id="ttl"
                   type="number"
                   min="60"
-                  max="86400"
+                  max="604800"
                   value={formData.ttl}
                   onChange={(e) => setFormData(prev => ({ ...prev, ttl: parseInt(e.target.value) || 300 }))}
                 />
+                {errors.ttl && <p className="text-sm text-destructive">{errors.ttl}</p>}
               </div>
               {showPriority && (
                 <div className="space-y-2">
@@ -172,6 +251,7 @@ export const AddDNSRecordDialog = ({ open, onOpenChange, domain, onRecordAdded }
                     value={formData.priority}
                     onChange={(e) => setFormData(prev => ({ ...prev, priority: e.target.value }))}
                   />
+                  {errors.priority && <p className="text-sm text-destructive">{errors.priority}</p>}
                 </div>
               )}
             </div>
@@ -189,6 +269,7 @@ export const AddDNSRecordDialog = ({ open, onOpenChange, domain, onRecordAdded }
                     value={formData.weight}
                     onChange={(e) => setFormData(prev => ({ ...prev, weight: e.target.value }))}
                   />
+                  {errors.weight && <p className="text-sm text-destructive">{errors.weight}</p>}
                 </div>
                 {showPort && (
                   <div className="space-y-2">
@@ -202,28 +283,43 @@ export const AddDNSRecordDialog = ({ open, onOpenChange, domain, onRecordAdded }
                       value={formData.port}
                       onChange={(e) => setFormData(prev => ({ ...prev, port: e.target.value }))}
                     />
+                    {errors.port && <p className="text-sm text-destructive">{errors.port}</p>}
                   </div>
                 )}
               </div>
             )}
+
+            {(formData.type === 'A' || formData.type === 'AAAA') && (
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={autoPtr} onCheckedChange={(checked) => setAutoPtr(checked === true)} />
+                  Keep a PTR record in the reverse zone for this address
+                </label>
+                {errors.autoPtr && <p className="text-sm text-destructive">{errors.autoPtr}</p>}
+              </div>
+            )}
+
+            <ViewCheckboxes views={views} value={viewIds} onChange={setViewIds} error={errors.viewIds} />
           </div>
+
+          {preview && <ZoneChangePreview preview={preview} />}
           
           <DialogFooter>
             <Button
               type="button"
               variant="outline"
-              onClick={() => onOpenChange(false)}
+              onClick={() => (preview ? setPreview(null) : handleOpenChange(false))}
               disabled={loading}
             >
-              Cancel
+              {preview ? "Back" : "Cancel"}
             </Button>
             <Button
               type="submit"
               variant="dns"
-              disabled={loading || !formData.name || !formData.type || !formData.value}
+              disabled={loading || !formData.name || !formData.type || (!structured && !formData.value) || (preview !== null && !preview.valid)}
             >
               {loading && <Loader2 className="h-4 w-4 animate-spin" />}
-              Add Record
+              {preview ? "Add Record" : "Review"}
             </Button>
           </DialogFooter>
         </form>
@@ -3,10 +3,20 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Edit, Trash2, Globe, Database } from "lucide-react";
+import { Plus, Edit, Trash2, Globe, Database, Upload, Download } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { AddDNSRecordDialog } from "./AddDNSRecordDialog";
 import { EditDNSRecordDialog } from "./EditDNSRecordDialog";
-import { getDNSRecords, deleteDNSRecord } from "@/lib/api";
+import { ImportZoneDialog } from "./ImportZoneDialog";
+import { TransferStatusCard } from "./TransferStatusCard";
+import { getDNSRecords, deleteDNSRecord, exportZone, getViews, View, ZoneExportFormat } from "@/lib/api";
+import { toUnicodeName } from "@/lib/idn";
 
 interface DNSRecord {
   id: string;
@@ -17,6 +27,10 @@ interface DNSRecord {
   priority?: number;
   weight?: number;
   port?: number;
+  views?: Array<{ id: string; name: string }>;
+  // A/AAAA records keeping a PTR, and the PTRs kept for them
+  autoPtr?: boolean;
+  ptrSourceId?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -26,19 +40,29 @@ interface Domain {
   name: string;
   description: string;
   status: string;
+  zoneType?: string;
 }
 
 interface DNSRecordsListProps {
   domain: Domain;
 }
 
+// Catch-all view for clients that match no view; it serves unscoped records
+const DEFAULT_VIEW = "default";
+const ALL_VIEWS = "all";
+
 export const DNSRecordsList = ({ domain }: DNSRecordsListProps) => {
   const [records, setRecords] = useState<DNSRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [editingRecord, setEditingRecord] = useState<DNSRecord | null>(null);
+  const [views, setViews] = useState<View[]>([]);
+  const [viewFilter, setViewFilter] = useState(ALL_VIEWS);
   const { toast } = useToast();
+  // Secondary zones are transferred from their primaries and cannot be edited
+  const readOnly = domain.zoneType === "secondary";
 
   const fetchRecords = async () => {
     try {
@@ -55,6 +79,18 @@ export const DNSRecordsList = ({ domain }: DNSRecordsListProps) => {
     }
   };
 
+  const fetchViews = async () => {
+    try {
+      setViews(await getViews());
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to fetch views: " + (error as Error).message,
+      });
+    }
+  };
+
   const deleteRecord = async (recordId: string) => {
     if (!confirm("Are you sure you want to delete this DNS record?")) {
       return;
@@ -91,10 +127,45 @@ export const DNSRecordsList = ({ domain }: DNSRecordsListProps) => {
     setShowAddDialog(false);
   };
 
+  const downloadZone = async (format: ZoneExportFormat) => {
+    try {
+      const blob = await exportZone(domain.id, format, viewFilter === ALL_VIEWS ? undefined : viewFilter);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${domain.name}.${format === 'bind' ? 'zone' : format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to export zone: " + (error as Error).message,
+      });
+    }
+  };
+
+  const handleZoneImported = () => {
+    fetchRecords();
+    setShowImportDialog(false);
+  };
+
   useEffect(() => {
     fetchRecords();
   }, [domain.id]);
 
+  useEffect(() => {
+    fetchViews();
+  }, []);
+
+  // Records answered to clients of the selected view: unscoped ones and those
+  // scoped to it
+  const visibleRecords = records.filter((record) => {
+    if (viewFilter === ALL_VIEWS) return true;
+    const scoped = record.views || [];
+    return scoped.length === 0 || scoped.some((view) => view.name === viewFilter);
+  });
+
   const getRecordTypeColor = (type: string) => {
     const colors: Record<string, string> = {
       A: "bg-blue-500",
@@ -132,19 +203,58 @@ export const DNSRecordsList = ({ domain }: DNSRecordsListProps) => {
         <div>
           <h2 className="text-2xl font-bold flex items-center gap-2">
             <Database className="h-6 w-6 text-primary" />
-            DNS Records for {domain.name}
+            DNS Records for {toUnicodeName(domain.name)}
           </h2>
           <p className="text-muted-foreground">
-            Manage DNS records for your domain
+            {readOnly ? "Records of this zone are managed on its primary servers" : "Manage DNS records for your domain"}
           </p>
         </div>
-        <Button onClick={() => setShowAddDialog(true)} variant="dns">
-          <Plus className="h-4 w-4" />
-          Add Record
-        </Button>
+        {!readOnly && (
+          <div className="flex items-center gap-2">
+            {views.length > 0 && (
+              <Select value={viewFilter} onValueChange={setViewFilter}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_VIEWS}>All views</SelectItem>
+                  {views.map((view) => (
+                    <SelectItem key={view.id} value={view.name}>
+                      {view.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={DEFAULT_VIEW}>Default view</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline">
+                  <Download className="h-4 w-4" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => downloadZone('bind')}>BIND zone file</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => downloadZone('json')}>JSON</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => downloadZone('csv')}>CSV</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button onClick={() => setShowImportDialog(true)} variant="outline">
+              <Upload className="h-4 w-4" />
+              Import Zone
+            </Button>
+            <Button onClick={() => setShowAddDialog(true)} variant="dns">
+              <Plus className="h-4 w-4" />
+              Add Record
+            </Button>
+          </div>
+        )}
       </div>
 
-      {records.length === 0 ? (
+      {readOnly && <TransferStatusCard domainId={domain.id} />}
+
+      {records.length === 0 && !readOnly ? (
         <Card className="text-center py-8">
           <CardContent>
             <Database className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
@@ -160,7 +270,7 @@ export const DNSRecordsList = ({ domain }: DNSRecordsListProps) => {
         </Card>
       ) : (
         <div className="grid gap-4">
-          {records.map((record) => (
+          {visibleRecords.map((record) => (
             <Card key={record.id} className="hover:shadow-hover transition-all">
               <CardHeader className="pb-2">
                 <div className="flex items-start justify-between">
@@ -171,28 +281,37 @@ export const DNSRecordsList = ({ domain }: DNSRecordsListProps) => {
                       >
                         {record.type}
                       </Badge>
-                      {record.name}
+                      {toUnicodeName(record.name)}
+                      {record.autoPtr && <Badge variant="outline">PTR</Badge>}
+                      {record.ptrSourceId && <Badge variant="outline">Automatic</Badge>}
+                      {record.views?.map((view) => (
+                        <Badge key={view.id} variant="outline">
+                          {view.name}
+                        </Badge>
+                      ))}
                     </CardTitle>
                     <CardDescription className="text-base font-mono bg-muted p-2 rounded mt-2">
                       {record.value}
                     </CardDescription>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleEditRecord(record)}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => deleteRecord(record.id)}
-                    >
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
-                  </div>
+                  {!readOnly && !record.ptrSourceId && (
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleEditRecord(record)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteRecord(record.id)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </CardHeader>
               <CardContent className="pt-0">
@@ -217,15 +336,24 @@ export const DNSRecordsList = ({ domain }: DNSRecordsListProps) => {
         open={showAddDialog}
         onOpenChange={setShowAddDialog}
         domain={domain}
+        views={views}
         onRecordAdded={handleRecordAdded}
       />
 
+      <ImportZoneDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        domain={domain}
+        onImported={handleZoneImported}
+      />
+
       {editingRecord && (
         <EditDNSRecordDialog
           open={showEditDialog}
           onOpenChange={setShowEditDialog}
           domain={domain}
           record={editingRecord}
+          views={views}
           onRecordUpdated={handleRecordUpdated}
         />
       )}
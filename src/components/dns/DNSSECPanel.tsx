@@ -0,0 +1,149 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, Loader2, RefreshCw, ShieldCheck } from "lucide-react";
+import { getDomainDnssec, setDomainDnssec, DnssecStatus } from "@/lib/api";
+
+interface Domain {
+  id: string;
+  name: string;
+}
+
+interface DNSSECPanelProps {
+  domain: Domain;
+}
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : "—");
+
+export const DNSSECPanel = ({ domain }: DNSSECPanelProps) => {
+  const [status, setStatus] = useState<DnssecStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchStatus = async () => {
+    setLoading(true);
+    try {
+      setStatus(await getDomainDnssec(domain.id));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load DNSSEC state: " + (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSigning = async (enabled: boolean) => {
+    if (!enabled && !confirm("Turn off DNSSEC? Remove the DS records at your registrar first, or the domain will stop resolving for validating resolvers.")) {
+      return;
+    }
+    setSaving(true);
+    try {
+      setStatus(await setDomainDnssec(domain.id, enabled));
+      toast({
+        title: "Success",
+        description: enabled ? "DNSSEC signing enabled" : "DNSSEC signing disabled",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update DNSSEC: " + (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copyRecord = async (record: string) => {
+    await navigator.clipboard.writeText(record);
+    toast({ title: "Copied", description: "DS record copied to the clipboard" });
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, [domain.id]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-primary" />
+              DNSSEC
+            </CardTitle>
+            <CardDescription>
+              Sign the zone and publish the DS records at your registrar
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={fetchStatus} disabled={loading}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            <Switch
+              checked={status?.enabled ?? false}
+              disabled={loading || saving || !status || (!status.supported && !status.enabled)}
+              onCheckedChange={toggleSigning}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && !status ? (
+          <div className="h-4 bg-muted rounded w-1/2 animate-pulse"></div>
+        ) : status && (
+          <>
+            {!status.supported && (
+              <p className="text-sm text-muted-foreground">The configured DNS backend does not sign zones.</p>
+            )}
+            {status.error && <p className="text-sm text-destructive">{status.error}</p>}
+            {status.enabled && status.keys.length === 0 && !status.error && (
+              <p className="text-sm text-muted-foreground">
+                The name server is generating the keys. Refresh in a moment.
+              </p>
+            )}
+
+            {status.keys.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold">Keys</h3>
+                {status.keys.map((key) => (
+                  <div key={key.id} className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                    <Badge variant="outline">{key.role}</Badge>
+                    <span className="font-mono">{key.keyTag}</span>
+                    <span className="text-muted-foreground">Algorithm {key.algorithm}</span>
+                    <Badge variant={key.state === 'active' ? 'default' : 'secondary'}>{key.state}</Badge>
+                    <span className="text-muted-foreground">Active: {formatDate(key.activatedAt)}</span>
+                    <span className="text-muted-foreground">Rollover: {formatDate(key.retireAt)}</span>
+                    {key.dsState && <span className="text-muted-foreground">DS: {key.dsState}</span>}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {status.ds.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold">DS records for the registrar</h3>
+                {status.ds.map((ds) => (
+                  <div key={`${ds.keyTag}-${ds.digestType}`} className="flex items-start gap-2">
+                    <code className="flex-1 text-xs font-mono bg-muted p-2 rounded break-all">{ds.record}</code>
+                    <Button variant="ghost" size="sm" onClick={() => copyRecord(ds.record)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
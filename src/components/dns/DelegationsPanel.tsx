@@ -0,0 +1,268 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Edit, GitFork, Plus, RefreshCw, Trash2, X } from "lucide-react";
+import {
+  ApiError,
+  createDelegation,
+  deleteDelegation,
+  getDelegations,
+  updateDelegation,
+  Delegation,
+  DelegationInput,
+  DelegationNameServer,
+} from "@/lib/api";
+import { toUnicodeName } from "@/lib/idn";
+
+interface Domain {
+  id: string;
+  name: string;
+}
+
+interface DelegationsPanelProps {
+  domain: Domain;
+}
+
+const emptyNameServer = (): DelegationNameServer => ({ hostname: '', ipv4: '', ipv6: '' });
+const emptyForm = (): DelegationInput => ({ name: '', ttl: 3600, nameServers: [emptyNameServer()] });
+
+export const DelegationsPanel = ({ domain }: DelegationsPanelProps) => {
+  const [delegations, setDelegations] = useState<Delegation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // null while the form is closed, 'new' or the id of the delegation edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<DelegationInput>(emptyForm());
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+
+  const fetchDelegations = async () => {
+    setLoading(true);
+    try {
+      setDelegations(await getDelegations(domain.id));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load delegations: " + (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openForm = (delegation?: Delegation) => {
+    setErrors({});
+    setEditing(delegation?.id ?? 'new');
+    setForm(delegation
+      ? { name: delegation.name, ttl: delegation.ttl, nameServers: delegation.nameServers.map(ns => ({ ...ns })) }
+      : emptyForm());
+  };
+
+  const setNameServer = (index: number, changes: Partial<DelegationNameServer>) => {
+    setForm(prev => ({
+      ...prev,
+      nameServers: prev.nameServers.map((ns, i) => (i === index ? { ...ns, ...changes } : ns)),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setErrors({});
+    try {
+      if (editing === 'new') await createDelegation(domain.id, form);
+      else if (editing) await updateDelegation(domain.id, editing, form);
+      toast({
+        title: "Success",
+        description: `${form.name} delegated`,
+      });
+      setEditing(null);
+      fetchDelegations();
+    } catch (error) {
+      // Validation errors are shown next to the fields they belong to
+      if (error instanceof ApiError && error.fields) {
+        setErrors(error.fields);
+        return;
+      }
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (delegation: Delegation) => {
+    if (!confirm(`Remove the delegation of ${delegation.name}? Its NS and glue records are no longer published.`)) {
+      return;
+    }
+    try {
+      await deleteDelegation(domain.id, delegation.id);
+      toast({ title: "Success", description: `Delegation of ${delegation.name} removed` });
+      fetchDelegations();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to remove delegation: " + (error as Error).message,
+      });
+    }
+  };
+
+  useEffect(() => {
+    setEditing(null);
+    fetchDelegations();
+  }, [domain.id]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitFork className="h-5 w-5 text-primary" />
+              Delegations
+            </CardTitle>
+            <CardDescription>
+              Hand subdomains of {toUnicodeName(domain.name)} to other nameservers
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={fetchDelegations} disabled={loading}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+            <Button size="sm" onClick={() => openForm()} disabled={editing !== null}>
+              <Plus className="h-4 w-4 mr-2" />
+              Delegate
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && delegations.length === 0 ? (
+          <div className="h-4 bg-muted rounded w-1/2 animate-pulse"></div>
+        ) : delegations.length === 0 && editing === null ? (
+          <p className="text-sm text-muted-foreground">No subdomains are delegated.</p>
+        ) : (
+          delegations.map((delegation) => (
+            <div key={delegation.id} className="flex items-start justify-between gap-4 text-sm">
+              <div className="space-y-1">
+                <div className="font-mono font-semibold">{delegation.name}</div>
+                {delegation.nameServers.map((ns) => (
+                  <div key={ns.hostname} className="font-mono text-muted-foreground">
+                    NS {ns.hostname}
+                    {[ns.ipv4, ns.ipv6].filter(Boolean).map((address) => ` · glue ${address}`)}
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" onClick={() => openForm(delegation)} disabled={editing !== null}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(delegation)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+
+        {editing !== null && (
+          <form onSubmit={handleSubmit} className="space-y-4 border-t pt-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="delegation-name">Subdomain</Label>
+                <Input
+                  id="delegation-name"
+                  placeholder="dev, eu.shop, etc."
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  required
+                />
+                {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="delegation-ttl">TTL (seconds)</Label>
+                <Input
+                  id="delegation-ttl"
+                  type="number"
+                  min="60"
+                  max="604800"
+                  value={form.ttl}
+                  onChange={(e) => setForm(prev => ({ ...prev, ttl: parseInt(e.target.value) || 3600 }))}
+                />
+                {errors.ttl && <p className="text-sm text-destructive">{errors.ttl}</p>}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Nameservers</Label>
+              <p className="text-xs text-muted-foreground">
+                Glue addresses are only needed for nameservers inside the delegated subdomain.
+              </p>
+              {form.nameServers.map((ns, index) => (
+                <div key={index} className="space-y-1">
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="ns1.dev.example.com"
+                      value={ns.hostname}
+                      onChange={(e) => setNameServer(index, { hostname: e.target.value })}
+                      required
+                    />
+                    <Input
+                      placeholder="IPv4 glue"
+                      value={ns.ipv4 ?? ''}
+                      onChange={(e) => setNameServer(index, { ipv4: e.target.value })}
+                    />
+                    <Input
+                      placeholder="IPv6 glue"
+                      value={ns.ipv6 ?? ''}
+                      onChange={(e) => setNameServer(index, { ipv6: e.target.value })}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      disabled={form.nameServers.length === 1}
+                      onClick={() => setForm(prev => ({ ...prev, nameServers: prev.nameServers.filter((_, i) => i !== index) }))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {errors[`nameServers.${index}`] && (
+                    <p className="text-sm text-destructive">{errors[`nameServers.${index}`]}</p>
+                  )}
+                </div>
+              ))}
+              {errors.nameServers && <p className="text-sm text-destructive">{errors.nameServers}</p>}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setForm(prev => ({ ...prev, nameServers: [...prev.nameServers, emptyNameServer()] }))}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add nameserver
+              </Button>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Save delegation"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,8 +1,9 @@
 import { useState } from "react";
-import { updateDNSRecord } from "@/lib/api";
+import { ApiError, previewRecordChanges, updateDNSRecord, RecordChangePreview, View } from "@/lib/api";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Dialog,
@@ -14,6 +15,12 @@ import {
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
+import { DNS_RECORD_TYPES, RECORD_DATA_FIELDS, defaultRecordData } from "@/lib/recordTypes";
+import { RecordDataFields } from "./RecordDataFields";
+import { TxtValueInput } from "./TxtValueInput";
+import { ViewCheckboxes } from "./ViewCheckboxes";
+import { ZoneChangePreview } from "./ZoneChangePreview";
+import { toUnicodeName } from "@/lib/idn";
 
 interface Domain {
   id: string;
@@ -29,6 +36,9 @@ interface DNSRecord {
   priority?: number;
   weight?: number;
   port?: number;
+  rdata?: Record<string, string | number> | null;
+  views?: Array<{ id: string; name: string }>;
+  autoPtr?: boolean;
 }
 
 interface EditDNSRecordDialogProps {
@@ -36,15 +46,14 @@ interface EditDNSRecordDialogProps {
   onOpenChange: (open: boolean) => void;
   domain: Domain;
   record: DNSRecord;
+  views: View[];
   onRecordUpdated: () => void;
 }
 
-const DNS_RECORD_TYPES = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'NS', 'PTR', 'SRV'];
-
-export const EditDNSRecordDialog = ({ open, onOpenChange, domain, record, onRecordUpdated }: EditDNSRecordDialogProps) => {
+export const EditDNSRecordDialog = ({ open, onOpenChange, domain, record, views, onRecordUpdated }: EditDNSRecordDialogProps) => {
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
-    name: record.name,
+    name: toUnicodeName(record.name),
     type: record.type,
     value: record.value,
     ttl: record.ttl,
@@ -52,20 +61,53 @@ export const EditDNSRecordDialog = ({ open, onOpenChange, domain, record, onReco
     weight: record.weight?.toString() || '',
     port: record.port?.toString() || '',
   });
+  const [rdata, setRdata] = useState<Record<string, string>>(() => Object.fromEntries(Object.entries(record.rdata || {}).map(([key, value]) => [key, String(value)])));
+  const [autoPtr, setAutoPtr] = useState(record.autoPtr ?? false);
+  const [viewIds, setViewIds] = useState<string[]>(() => (record.views || []).map((view) => view.id));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  // Set once the change has been previewed; the next submit saves it
+  const [preview, setPreview] = useState<RecordChangePreview | null>(null);
   const { toast } = useToast();
 
+  const handleOpenChange = (value: boolean) => {
+    if (!value) setPreview(null);
+    onOpenChange(value);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
+    setErrors({});
 
     try {
       const recordData: any = {
-        name: formData.name.trim(),
         type: formData.type,
         value: formData.value.trim(),
         ttl: formData.ttl,
+        viewIds,
       };
 
+      // A and AAAA records can keep the PTR for their address
+      if (formData.type === 'A' || formData.type === 'AAAA') {
+        recordData.autoPtr = autoPtr;
+      }
+
+      // An unchanged name is left out, the backend keeps the stored owner as is
+      if (formData.name.trim() !== toUnicodeName(record.name)) {
+        recordData.name = formData.name.trim();
+      }
+
+      // An unchanged TXT value is left out as well, so the stored string is not
+      // read as quoted input again
+      if (formData.type === 'TXT' && record.type === 'TXT' && formData.value === record.value) {
+        delete recordData.value;
+      }
+
+      // Structured types send their fields, the backend builds the value
+      if (RECORD_DATA_FIELDS[formData.type]) {
+        recordData.rdata = rdata;
+      }
+
       // Add optional fields for MX and SRV records
       if (formData.type === 'MX' && formData.priority) {
         recordData.priority = parseInt(formData.priority);
@@ -77,6 +119,17 @@ export const EditDNSRecordDialog = ({ open, onOpenChange, domain, record, onReco
         if (formData.port) recordData.port = parseInt(formData.port);
       }
 
+      if (!preview) {
+        const result = await previewRecordChanges(domain.id, [{ action: 'update', id: record.id, record: recordData }]);
+        const [failed] = result.errors;
+        if (failed?.fields) {
+          setErrors(failed.fields);
+          return;
+        }
+        setPreview(result);
+        return;
+      }
+
       await updateDNSRecord(record.id, recordData);
 
       toast({
@@ -86,6 +139,12 @@ export const EditDNSRecordDialog = ({ open, onOpenChange, domain, record, onReco
 
       onRecordUpdated();
     } catch (error: any) {
+      // Validation errors are shown next to the fields they belong to
+      if (error instanceof ApiError && error.fields) {
+        setErrors(error.fields);
+        setPreview(null);
+        return;
+      }
       toast({
         variant: "destructive",
         title: "Error",
@@ -96,22 +155,25 @@ export const EditDNSRecordDialog = ({ open, onOpenChange, domain, record, onReco
     }
   };
 
+  const structured = !!RECORD_DATA_FIELDS[formData.type];
   const showPriority = formData.type === 'MX' || formData.type === 'SRV';
   const showWeight = formData.type === 'SRV';
   const showPort = formData.type === 'SRV';
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
           <DialogTitle>Edit DNS Record</DialogTitle>
           <DialogDescription>
-            Update DNS record for {domain.name}
+            {preview
+              ? "Review the change to the zone file before updating the record"
+              : `Update DNS record for ${toUnicodeName(domain.name)}`}
           </DialogDescription>
         </DialogHeader>
         
         <form onSubmit={handleSubmit}>
-          <div className="grid gap-4 py-4">
+          <div className={preview ? "hidden" : "grid gap-4 py-4"}>
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="name">Name</Label>
@@ -122,10 +184,17 @@ export const EditDNSRecordDialog = ({ open, onOpenChange, domain, record, onReco
                   onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
                   required
                 />
+                {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
               </div>
               <div className="space-y-2">
                 <Label htmlFor="type">Type</Label>
-                <Select value={formData.type} onValueChange={(value) => setFormData(prev => ({ ...prev, type: value }))}>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value) => {
+                    setFormData(prev => ({ ...prev, type: value }));
+                    setRdata(defaultRecordData(value));
+                  }}
+                >
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
@@ -137,19 +206,37 @@ export const EditDNSRecordDialog = ({ open, onOpenChange, domain, record, onReco
                     ))}
                   </SelectContent>
                 </Select>
+                {errors.type && <p className="text-sm text-destructive">{errors.type}</p>}
               </div>
             </div>
             
-            <div className="space-y-2">
-              <Label htmlFor="value">Value</Label>
-              <Input
-                id="value"
-                placeholder="Enter the record value"
-                value={formData.value}
-                onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
-                required
+            {structured ? (
+              <RecordDataFields
+                type={formData.type}
+                values={rdata}
+                onChange={(key, value) => setRdata(prev => ({ ...prev, [key]: value }))}
+                errors={errors}
               />
-            </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="value">Value</Label>
+                {formData.type === 'TXT' ? (
+                  <TxtValueInput
+                    value={formData.value}
+                    onChange={(value) => setFormData(prev => ({ ...prev, value }))}
+                  />
+                ) : (
+                  <Input
+                    id="value"
+                    placeholder="Enter the record value"
+                    value={formData.value}
+                    onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
+                    required
+                  />
+                )}
+                {errors.value && <p className="text-sm text-destructive">{errors.value}</p>}
+              </div>
+            )}
 
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
@@ -158,10 +245,11 @@ export const EditDNSRecordDialog = ({ open, onOpenChange, domain, record, onReco
                   id="ttl"
                   type="number"
                   min="60"
-                  max="86400"
+                  max="604800"
                   value={formData.ttl}
                   onChange={(e) => setFormData(prev => ({ ...prev, ttl: parseInt(e.target.value) || 300 }))}
                 />
+                {errors.ttl && <p className="text-sm text-destructive">{errors.ttl}</p>}
               </div>
               {showPriority && (
                 <div className="space-y-2">
@@ -175,6 +263,7 @@ export const EditDNSRecordDialog = ({ open, onOpenChange, domain, record, onReco
                     value={formData.priority}
                     onChange={(e) => setFormData(prev => ({ ...prev, priority: e.target.value }))}
                   />
+                  {errors.priority && <p className="text-sm text-destructive">{errors.priority}</p>}
                 </div>
               )}
             </div>
@@ -192,6 +281,7 @@ export const EditDNSRecordDialog = ({ open, onOpenChange, domain, record, onReco
                     value={formData.weight}
                     onChange={(e) => setFormData(prev => ({ ...prev, weight: e.target.value }))}
                   />
+                  {errors.weight && <p className="text-sm text-destructive">{errors.weight}</p>}
                 </div>
                 {showPort && (
                   <div className="space-y-2">
@@ -205,27 +295,42 @@ export const EditDNSRecordDialog = ({ open, onOpenChange, domain, record, onReco
                       value={formData.port}
                       onChange={(e) => setFormData(prev => ({ ...prev, port: e.target.value }))}
                     />
+                    {errors.port && <p className="text-sm text-destructive">{errors.port}</p>}
                   </div>
                 )}
               </div>
             )}
+
+            {(formData.type === 'A' || formData.type === 'AAAA') && (
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={autoPtr} onCheckedChange={(checked) => setAutoPtr(checked === true)} />
+                  Keep a PTR record in the reverse zone for this address
+                </label>
+                {errors.autoPtr && <p className="text-sm text-destructive">{errors.autoPtr}</p>}
+              </div>
+            )}
+
+            <ViewCheckboxes views={views} value={viewIds} onChange={setViewIds} error={errors.viewIds} />
           </div>
+
+          {preview && <ZoneChangePreview preview={preview} />}
           
           <DialogFooter>
             <Button
               type="button"
               variant="outline"
-              onClick={() => onOpenChange(false)}
+              onClick={() => (preview ? setPreview(null) : handleOpenChange(false))}
               disabled={loading}
             >
-              Cancel
+              {preview ? "Back" : "Cancel"}
             </Button>
             <Button
               type="submit"
-              disabled={loading || !formData.name || !formData.type || !formData.value}
+              disabled={loading || !formData.name || !formData.type || (!structured && !formData.value) || (preview !== null && !preview.valid)}
             >
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Update Record
+              {preview ? "Update Record" : "Review"}
             </Button>
           </DialogFooter>
         </form>
@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { importZone, previewZoneImport, ZoneImportPreview } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { toUnicodeName } from "@/lib/idn";
+
+interface Domain {
+  id: string;
+  name: string;
+}
+
+interface ImportZoneDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  domain: Domain;
+  onImported: () => void;
+}
+
+const formatRecord = (record: { name: string; type: string; value: string; ttl: number; priority?: number | null }) =>
+  `${record.name} ${record.ttl} ${record.type} ${record.priority != null ? `${record.priority} ` : ''}${record.value}`;
+
+export const ImportZoneDialog = ({ open, onOpenChange, domain, onImported }: ImportZoneDialogProps) => {
+  const [zone, setZone] = useState('');
+  const [preview, setPreview] = useState<ZoneImportPreview | null>(null);
+  const [conflicts, setConflicts] = useState<'keep' | 'replace'>('keep');
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setZone('');
+    setPreview(null);
+    setConflicts('keep');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setZone(await file.text());
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    setLoading(true);
+    try {
+      setPreview(await previewZoneImport(domain.id, zone));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+    try {
+      const result = await importZone(domain.id, zone, conflicts);
+      toast({
+        title: "Success",
+        description: `Imported ${result.created ?? 0} records into ${toUnicodeName(domain.name)}`,
+      });
+      reset();
+      onImported();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changes = preview ? preview.adds.length + (conflicts === 'replace' ? preview.conflicts.length : 0) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) reset(); onOpenChange(next); }}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>Import Zone</DialogTitle>
+          <DialogDescription>
+            Paste or upload a BIND zone file for {toUnicodeName(domain.name)}. You will see a preview before anything is saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="zone">Zone file</Label>
+              <input type="file" accept=".zone,.txt,.db,text/plain" onChange={handleFile} className="text-sm" />
+            </div>
+            <Textarea
+              id="zone"
+              className="font-mono text-xs h-48"
+              placeholder={`$ORIGIN ${domain.name}.\n$TTL 3600\nwww  IN  A  192.0.2.1`}
+              value={zone}
+              onChange={(e) => { setZone(e.target.value); setPreview(null); }}
+            />
+          </div>
+
+          {preview && (
+            <ScrollArea className="max-h-72 rounded border p-3">
+              <div className="space-y-4 text-sm">
+                <div className="flex flex-wrap gap-2">
+                  <Badge className="bg-green-500 text-white">{preview.adds.length} to add</Badge>
+                  <Badge className="bg-orange-500 text-white">{preview.conflicts.length} conflicts</Badge>
+                  <Badge variant="secondary">{preview.unchanged} unchanged</Badge>
+                  <Badge variant="secondary">{preview.skipped.length} skipped</Badge>
+                  {preview.errors.length > 0 && (
+                    <Badge variant="destructive">{preview.errors.length} errors</Badge>
+                  )}
+                </div>
+
+                {preview.errors.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="font-semibold text-destructive">Errors (fix these before importing)</p>
+                    {preview.errors.map((error, i) => (
+                      <p key={i} className="font-mono text-xs text-destructive">line {error.line}: {error.message}</p>
+                    ))}
+                  </div>
+                )}
+
+                {preview.adds.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="font-semibold">New records</p>
+                    {preview.adds.map((record, i) => (
+                      <p key={i} className="font-mono text-xs">{formatRecord(record)}</p>
+                    ))}
+                  </div>
+                )}
+
+                {preview.conflicts.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="font-semibold">Conflicts with existing records</p>
+                    {preview.conflicts.map((conflict, i) => (
+                      <div key={i} className="rounded bg-muted p-2 font-mono text-xs">
+                        <p className="font-sans font-medium">{conflict.name} {conflict.type}</p>
+                        {conflict.existing.map((record) => (
+                          <p key={record.id} className="text-muted-foreground">- {formatRecord(record)}</p>
+                        ))}
+                        {conflict.imported.map((record, j) => (
+                          <p key={j}>+ {formatRecord(record)}</p>
+                        ))}
+                      </div>
+                    ))}
+                    <RadioGroup value={conflicts} onValueChange={(value) => setConflicts(value as 'keep' | 'replace')}>
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="keep" id="conflicts-keep" />
+                        <Label htmlFor="conflicts-keep">Keep existing records</Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="replace" id="conflicts-replace" />
+                        <Label htmlFor="conflicts-replace">Replace them with the imported records</Label>
+                      </div>
+                    </RadioGroup>
+                  </div>
+                )}
+
+                {preview.skipped.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="font-semibold">Skipped</p>
+                    {preview.skipped.map((skip, i) => (
+                      <p key={i} className="text-xs text-muted-foreground">line {skip.line}: {skip.reason}</p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </ScrollArea>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={loading}
+          >
+            Cancel
+          </Button>
+          {preview ? (
+            <Button
+              type="button"
+              variant="dns"
+              onClick={handleImport}
+              disabled={loading || preview.errors.length > 0 || changes === 0}
+            >
+              {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+              Import
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              variant="dns"
+              onClick={handlePreview}
+              disabled={loading || !zone.trim()}
+            >
+              {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+              Preview
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,56 @@
+import { RECORD_DATA_FIELDS } from "@/lib/recordTypes";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface RecordDataFieldsProps {
+  type: string;
+  values: Record<string, string>;
+  onChange: (key: string, value: string) => void;
+  // Backend field errors, keyed rdata.<field>
+  errors: Record<string, string>;
+}
+
+// Type-specific inputs for records with structured data (CAA, TLSA, ...)
+export const RecordDataFields = ({ type, values, onChange, errors }: RecordDataFieldsProps) => {
+  const fields = RECORD_DATA_FIELDS[type];
+  if (!fields) return null;
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {fields.map((field) => {
+        const id = `rdata-${field.key}`;
+        const error = errors[`rdata.${field.key}`];
+        return (
+          <div key={field.key} className={field.wide ? "col-span-2 space-y-2" : "space-y-2"}>
+            <Label htmlFor={id}>{field.label}</Label>
+            {field.options ? (
+              <Select value={values[field.key] ?? ''} onValueChange={(value) => onChange(field.key, value)}>
+                <SelectTrigger id={id}>
+                  <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {field.options.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={id}
+                type={field.numeric ? "number" : "text"}
+                placeholder={field.placeholder}
+                value={values[field.key] ?? ''}
+                onChange={(e) => onChange(field.key, e.target.value)}
+                className={field.wide ? "font-mono" : undefined}
+              />
+            )}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowDownToLine, RefreshCw } from "lucide-react";
+import { getDomainTransfer, TransferStatus } from "@/lib/api";
+
+interface TransferStatusCardProps {
+  domainId: string;
+}
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : "—");
+
+// Transfer state of a secondary zone, as reported by the name server
+export const TransferStatusCard = ({ domainId }: TransferStatusCardProps) => {
+  const [status, setStatus] = useState<TransferStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchStatus = async () => {
+    setLoading(true);
+    try {
+      setStatus(await getDomainTransfer(domainId));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load transfer status: " + (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, [domainId]);
+
+  const transferred = status && !status.error && status.serial !== null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <ArrowDownToLine className="h-5 w-5 text-primary" />
+              Zone Transfer
+              {status && (
+                <Badge variant={transferred ? "default" : "destructive"}>
+                  {transferred ? "Transferred" : "Not transferred"}
+                </Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              This is a secondary zone. Its records come from the primary servers and are read-only here.
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={fetchStatus} disabled={loading}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      {status && (
+        <CardContent className="space-y-2 text-sm">
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+            <span className="text-muted-foreground">Primaries</span>
+            <span className="font-mono">{status.primaries.join(", ")}</span>
+            <span className="text-muted-foreground">TSIG key</span>
+            <span className="font-mono">{status.transferKey || "—"}</span>
+            <span className="text-muted-foreground">Serial</span>
+            <span className="font-mono">{status.serial ?? "—"}</span>
+            <span className="text-muted-foreground">Last loaded</span>
+            <span>{formatDate(status.loadedAt)}</span>
+            <span className="text-muted-foreground">Next refresh</span>
+            <span>{formatDate(status.refreshAt)}</span>
+            <span className="text-muted-foreground">Expires</span>
+            <span>{formatDate(status.expiresAt)}</span>
+          </div>
+          {status.error && <p className="text-destructive">{status.error}</p>}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
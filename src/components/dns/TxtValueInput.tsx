@@ -0,0 +1,32 @@
+import { Textarea } from "@/components/ui/textarea";
+
+interface TxtValueInputProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Bytes per character-string in the zone file; longer values are split
+const TXT_CHUNK_BYTES = 255;
+
+// TXT values are edited as one joined string; the backend splits and quotes
+// them when the zone is written
+export const TxtValueInput = ({ value, onChange }: TxtValueInputProps) => {
+  const bytes = new TextEncoder().encode(value).length;
+  const strings = Math.max(1, Math.ceil(bytes / TXT_CHUNK_BYTES));
+
+  return (
+    <div className="space-y-1">
+      <Textarea
+        id="value"
+        className="font-mono text-xs min-h-24"
+        placeholder="v=spf1 include:_spf.example.com ~all"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        required
+      />
+      <p className="text-xs text-muted-foreground">
+        {bytes} bytes{strings > 1 ? ` · written as ${strings} strings of up to ${TXT_CHUNK_BYTES} bytes` : ''}
+      </p>
+    </div>
+  );
+};
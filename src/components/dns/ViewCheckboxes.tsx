@@ -0,0 +1,40 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { View } from "@/lib/api";
+
+interface ViewCheckboxesProps {
+  views: View[];
+  value: string[];
+  onChange: (value: string[]) => void;
+  error?: string;
+}
+
+// Views a record is served in; none checked serves it in every view
+export const ViewCheckboxes = ({ views, value, onChange, error }: ViewCheckboxesProps) => {
+  if (views.length === 0) return null;
+
+  const toggle = (id: string, checked: boolean) => {
+    onChange(checked ? [...value, id] : value.filter((viewId) => viewId !== id));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Views</Label>
+      <div className="flex flex-wrap gap-4">
+        {views.map((view) => (
+          <label key={view.id} className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={value.includes(view.id)}
+              onCheckedChange={(checked) => toggle(view.id, checked === true)}
+            />
+            {view.name}
+          </label>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {value.length === 0 ? "Served in every view" : "Served only to clients matching the checked views"}
+      </p>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+};
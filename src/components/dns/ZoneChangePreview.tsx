@@ -0,0 +1,58 @@
+import { Badge } from "@/components/ui/badge";
+import { RecordChangePreview } from "@/lib/api";
+
+interface ZoneChangePreviewProps {
+  preview: RecordChangePreview;
+}
+
+const diffLineClass = (line: string) => {
+  if (line.startsWith("+++") || line.startsWith("---")) return "font-semibold";
+  if (line.startsWith("@@")) return "text-muted-foreground";
+  if (line.startsWith("+")) return "text-green-500";
+  if (line.startsWith("-")) return "text-destructive";
+  return "";
+};
+
+// What a record change does to the zone files, shown before it is saved
+export const ZoneChangePreview = ({ preview }: ZoneChangePreviewProps) => {
+  const unchanged = preview.files.every((file) => !file.diff);
+
+  return (
+    <div className="space-y-4 py-4">
+      {preview.errors.map((error) => (
+        <p key={error.index} className="text-sm text-destructive">{error.error}</p>
+      ))}
+      {unchanged ? (
+        <p className="text-sm text-muted-foreground">The zone files do not change.</p>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          The zone is published with serial <span className="font-mono">{preview.serial}</span>.
+        </p>
+      )}
+      {preview.files.map((file) => (
+        <div key={file.view ?? ""} className="space-y-1">
+          {file.view && <div className="text-sm font-medium">View {file.view}</div>}
+          {file.diff && (
+            <pre className="text-xs font-mono bg-muted p-2 rounded overflow-auto max-h-64">
+              {file.diff.trimEnd().split("\n").map((line, index) => (
+                <div key={index} className={diffLineClass(line)}>{line}</div>
+              ))}
+            </pre>
+          )}
+          {file.error && <p className="text-sm text-destructive">{file.error}</p>}
+        </div>
+      ))}
+      {preview.issues.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-sm font-medium">Zone checks</div>
+          {preview.issues.map((issue, index) => (
+            <div key={index} className="flex items-start gap-2 text-sm">
+              <Badge variant={issue.severity === "error" ? "destructive" : "secondary"}>{issue.severity}</Badge>
+              <span>{issue.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { GitCompare, Loader2 } from "lucide-react";
+import { getDomainDrift, DriftCheck, RRSet, ZoneDrift } from "@/lib/api";
+
+interface ZoneDriftCardProps {
+  domainId: string;
+}
+
+const STATUS_LABELS: Record<DriftCheck['status'], string> = {
+  'in-sync': "In sync",
+  drifted: "Drifted",
+  missing: "Missing",
+  unavailable: "Not checked",
+};
+
+const rrsetLines = (rrset: RRSet | null, sign: string) =>
+  rrset ? rrset.contents.map((content) => `${sign} ${rrset.name} ${rrset.ttl} ${rrset.type} ${content}`) : [];
+
+const DriftCheckRow = ({ label, check }: { label: string; check: DriftCheck }) => (
+  <div className="space-y-1">
+    <div className="flex items-center gap-2 text-sm">
+      <span className="font-medium">{label}</span>
+      <Badge variant={check.status === 'in-sync' ? "default" : check.status === 'unavailable' ? "secondary" : "destructive"}>
+        {STATUS_LABELS[check.status]}
+      </Badge>
+    </div>
+    {check.error && <p className="text-sm text-muted-foreground">{check.error}</p>}
+    {check.diffs.length > 0 && (
+      <pre className="text-xs font-mono bg-muted p-2 rounded overflow-x-auto">
+        {check.diffs.flatMap(({ before, after }) => [...rrsetLines(before, "-"), ...rrsetLines(after, "+")]).join("\n")}
+      </pre>
+    )}
+  </div>
+);
+
+// Compares the zone in the database with its zone files and with what the
+// name server serves. Checked on demand, since it transfers the zone.
+export const ZoneDriftCard = ({ domainId }: ZoneDriftCardProps) => {
+  const [drift, setDrift] = useState<ZoneDrift | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const checkDrift = async () => {
+    setLoading(true);
+    try {
+      setDrift(await getDomainDrift(domainId));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to check drift: " + (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const current = drift?.domainId === domainId ? drift : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5 text-primary" />
+              Drift
+              {current && (
+                <Badge variant={current.inSync ? "default" : "destructive"}>
+                  {current.inSync ? "In sync" : "Out of sync"}
+                </Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              Compare the records here with the zone files and the name server
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={checkDrift} disabled={loading}>
+            {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Check now
+          </Button>
+        </div>
+      </CardHeader>
+      {current && (
+        <CardContent className="space-y-4">
+          {current.files.map((file) => (
+            <DriftCheckRow key={file.view ?? ""} label={file.view ? `Zone file (view ${file.view})` : "Zone file"} check={file} />
+          ))}
+          <DriftCheckRow label="Name server" check={current.server} />
+          <p className="text-xs text-muted-foreground">Checked {new Date(current.checkedAt).toLocaleString()}</p>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
@@ -6,6 +6,7 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { createDNSLoadBalancer, getDomains } from "@/lib/api";
+import { toUnicodeName } from "@/lib/idn";
 
 interface Domain {
   id: string;
@@ -147,7 +148,7 @@ export const CreateDNSLoadBalancerDialog = ({
                 <SelectContent>
                   {domains.map((domain) => (
                     <SelectItem key={domain.id} value={domain.id}>
-                      {domain.name}
+                      {toUnicodeName(domain.name)}
                     </SelectItem>
                   ))}
                 </SelectContent>
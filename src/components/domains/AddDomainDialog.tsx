@@ -1,8 +1,9 @@
 import { useState } from "react";
-import { createDomain } from "@/lib/api";
+import { createDomain, createReverseDomain } from "@/lib/api";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -22,8 +23,13 @@ interface AddDomainDialogProps {
 
 export const AddDomainDialog = ({ open, onOpenChange, onDomainAdded }: AddDomainDialogProps) => {
   const [loading, setLoading] = useState(false);
+  const [kind, setKind] = useState<"forward" | "reverse">("forward");
   const [domainName, setDomainName] = useState("");
+  const [network, setNetwork] = useState("");
   const [description, setDescription] = useState("");
+  const [zoneType, setZoneType] = useState<"primary" | "secondary">("primary");
+  const [primaries, setPrimaries] = useState("");
+  const [transferKey, setTransferKey] = useState("");
   const { toast } = useToast();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -31,15 +37,27 @@ export const AddDomainDialog = ({ open, onOpenChange, onDomainAdded }: AddDomain
     setLoading(true);
 
     try {
-      await createDomain(domainName.toLowerCase().trim());
+      const secondary = zoneType === "secondary"
+        ? { zoneType, primaries: primaries.split(/[\s,;]+/).filter(Boolean), transferKey: transferKey.trim() || undefined }
+        : undefined;
+      if (kind === "reverse") {
+        await createReverseDomain(network.trim(), undefined, secondary);
+      } else {
+        await createDomain(domainName.toLowerCase().trim(), undefined, secondary);
+      }
 
       toast({
         title: "Success",
         description: "Domain added successfully",
       });
 
+      setKind("forward");
       setDomainName("");
+      setNetwork("");
       setDescription("");
+      setZoneType("primary");
+      setPrimaries("");
+      setTransferKey("");
       onDomainAdded();
     } catch (error: any) {
       toast({
@@ -53,11 +71,13 @@ export const AddDomainDialog = ({ open, onOpenChange, onDomainAdded }: AddDomain
   };
 
   const validateDomain = (domain: string) => {
-    const domainRegex = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+    // Unicode labels (şirket.com.tr) are allowed; the backend applies the IDNA rules
+    const domainRegex = /^[\p{L}\p{M}\p{N}]([\p{L}\p{M}\p{N}-]{0,61}[\p{L}\p{M}\p{N}])?(\.[\p{L}\p{M}\p{N}]([\p{L}\p{M}\p{N}-]{0,61}[\p{L}\p{M}\p{N}])?)*$/u;
     return domainRegex.test(domain);
   };
 
-  const isValidDomain = domainName.trim() && validateDomain(domainName.trim());
+  const isValidDomain = kind === "reverse" ? network.trim().includes("/") : domainName.trim() && validateDomain(domainName.trim());
+  const hasPrimaries = zoneType === "primary" || primaries.trim() !== "";
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -72,21 +92,87 @@ export const AddDomainDialog = ({ open, onOpenChange, onDomainAdded }: AddDomain
         <form onSubmit={handleSubmit}>
           <div className="grid gap-4 py-4">
             <div className="space-y-2">
-              <Label htmlFor="domain-name">Domain Name</Label>
-              <Input
-                id="domain-name"
-                placeholder="example.com"
-                value={domainName}
-                onChange={(e) => setDomainName(e.target.value)}
-                required
-              />
-              {domainName && !isValidDomain && (
-                <p className="text-sm text-destructive">
-                  Please enter a valid domain name
-                </p>
-              )}
+              <Label htmlFor="domain-kind">Kind</Label>
+              <Select value={kind} onValueChange={(value: "forward" | "reverse") => setKind(value)}>
+                <SelectTrigger id="domain-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="forward">Forward (names to addresses)</SelectItem>
+                  <SelectItem value="reverse">Reverse (addresses to names, PTR)</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
+
+            {kind === "reverse" ? (
+              <div className="space-y-2">
+                <Label htmlFor="network">Network</Label>
+                <Input
+                  id="network"
+                  placeholder="192.0.2.0/24, 192.0.2.64/26 or 2001:db8::/48"
+                  value={network}
+                  onChange={(e) => setNetwork(e.target.value)}
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  Ranges smaller than a /24 get an RFC 2317 classless zone
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="domain-name">Domain Name</Label>
+                <Input
+                  id="domain-name"
+                  placeholder="example.com or şirket.com.tr"
+                  value={domainName}
+                  onChange={(e) => setDomainName(e.target.value)}
+                  required
+                />
+                {domainName && !isValidDomain && (
+                  <p className="text-sm text-destructive">
+                    Please enter a valid domain name
+                  </p>
+                )}
+              </div>
+            )}
             
+            <div className="space-y-2">
+              <Label htmlFor="zone-type">Zone Type</Label>
+              <Select value={zoneType} onValueChange={(value: "primary" | "secondary") => setZoneType(value)}>
+                <SelectTrigger id="zone-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="primary">Primary (records managed here)</SelectItem>
+                  <SelectItem value="secondary">Secondary (transferred from primaries)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {zoneType === "secondary" && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="primaries">Primary Servers</Label>
+                  <Input
+                    id="primaries"
+                    placeholder="192.0.2.1, 2001:db8::1"
+                    value={primaries}
+                    onChange={(e) => setPrimaries(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="transfer-key">TSIG Key Name (Optional)</Label>
+                  <Input
+                    id="transfer-key"
+                    placeholder="transfer-key"
+                    value={transferKey}
+                    onChange={(e) => setTransferKey(e.target.value)}
+                  />
+                </div>
+              </>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="description">Description (Optional)</Label>
               <Input
@@ -109,7 +195,7 @@ export const AddDomainDialog = ({ open, onOpenChange, onDomainAdded }: AddDomain
             </Button>
             <Button
               type="submit"
-              disabled={loading || !isValidDomain}
+              disabled={loading || !isValidDomain || !hasPrimaries}
             >
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Add Domain
@@ -6,12 +6,14 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { Plus, Globe, Settings, Trash2, BarChart3 } from "lucide-react";
 import { AddDomainDialog } from "./AddDomainDialog";
+import { toUnicodeName } from "@/lib/idn";
 
 interface Domain {
   id: string;
   name: string;
   description: string;
   status: string;
+  zoneType?: string;
   created_at: string;
   updated_at: string;
 }
@@ -130,13 +132,15 @@ export const DomainList = ({ onSelectDomain, selectedDomain }: DomainListProps)
                   <div className="flex-1">
                     <CardTitle className="flex items-center gap-2">
                       <Globe className="h-5 w-5 text-primary" />
-                      {domain.name}
+                      {toUnicodeName(domain.name)}
                     </CardTitle>
                     <CardDescription className="mt-1">
                       {domain.description || "No description"}
                     </CardDescription>
                   </div>
                   <div className="flex items-center gap-2">
+                    {/\.(in-addr|ip6)\.arpa$/.test(domain.name) && <Badge variant="outline">Reverse</Badge>}
+                    {domain.zoneType === "secondary" && <Badge variant="outline">Secondary</Badge>}
                     <Badge
                       variant={domain.status === "active" ? "default" : "secondary"}
                       className="capitalize"
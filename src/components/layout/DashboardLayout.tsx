@@ -5,6 +5,7 @@ import { useToast } from "@/hooks/use-toast";
 import { LogOut, User, Settings } from "lucide-react";
 import { DomainList } from "@/components/domains/DomainList";
 import { DNSRecordsList } from "@/components/dns/DNSRecordsList";
+import { toUnicodeName } from "@/lib/idn";
 
 interface Domain {
   id: string;
@@ -54,7 +55,7 @@ export const DashboardLayout = () => {
               </h1>
               {selectedDomain && (
                 <span className="ml-4 text-muted-foreground">
-                  / {selectedDomain.name}
+                  / {toUnicodeName(selectedDomain.name)}
                 </span>
               )}
             </div>
@@ -14,6 +14,19 @@ export function clearToken() {
   localStorage.removeItem('token');
 }
 
+// Error from a failed request. `fields` holds per-field messages when the
+// backend rejects a form (422 responses with a `fields` object).
+export class ApiError extends Error {
+  status: number;
+  fields?: Record<string, string>;
+
+  constructor(message: string, status: number, fields?: Record<string, string>) {
+    super(message);
+    this.status = status;
+    this.fields = fields;
+  }
+}
+
 export async function apiFetch<T>(
   path: string,
   options: RequestInit = {},
@@ -33,7 +46,7 @@ export async function apiFetch<T>(
   });
   if (!res.ok) {
     const error = await res.json().catch(() => ({ message: res.statusText }));
-    throw new Error(error.error || error.message || 'API Error');
+    throw new ApiError(error.error || error.message || 'API Error', res.status, error.fields);
   }
   if (res.status === 204) return undefined as T;
   return res.json();
@@ -80,34 +93,276 @@ export function getUserFromToken(): { id: string; email: string; isAdmin: boolea
 export async function getDomains() {
   return apiFetch('/domains', { method: 'GET' });
 }
-export async function createDomain(name: string, userId?: string) {
+export async function getDomain(id: string) {
+  return apiFetch(`/domains/${id}`, { method: 'GET' });
+}
+export interface SecondaryZoneSettings {
+  zoneType: 'secondary';
+  primaries: string[];
+  transferKey?: string;
+}
+export async function createDomain(name: string, userId?: string, secondary?: SecondaryZoneSettings) {
+  return apiFetch('/domains', {
+    method: 'POST',
+    body: JSON.stringify({ name, ...(userId ? { userId } : {}), ...secondary }),
+  });
+}
+// Reverse zone for a network, e.g. 192.0.2.0/24, 192.0.2.64/26 (RFC 2317) or 2001:db8::/48
+export async function createReverseDomain(network: string, userId?: string, secondary?: SecondaryZoneSettings) {
   return apiFetch('/domains', {
     method: 'POST',
-    body: JSON.stringify(userId ? { name, userId } : { name }),
+    body: JSON.stringify({ network, ...(userId ? { userId } : {}), ...secondary }),
   });
 }
 export async function deleteDomain(id: string) {
   return apiFetch(`/domains/${id}`, { method: 'DELETE' });
 }
 
+// SOA / NS profile
+export interface SOAProfile {
+  primaryNs: string;
+  contact: string;
+  refresh: number;
+  retry: number;
+  expire: number;
+  minimum: number;
+  defaultTtl: number;
+  apexAddress?: string | null;
+  nameServers: Array<{ hostname: string; ipv4?: string | null; ipv6?: string | null }>;
+  isDefault?: boolean;
+}
+export async function getDomainSOA(domainId: string) {
+  return apiFetch<SOAProfile>(`/domains/${domainId}/soa`, { method: 'GET' });
+}
+export async function updateDomainSOA(domainId: string, data: SOAProfile) {
+  return apiFetch<SOAProfile>(`/domains/${domainId}/soa`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+export async function resetDomainSOA(domainId: string) {
+  return apiFetch(`/domains/${domainId}/soa`, { method: 'DELETE' });
+}
+
+// Secondary zone transfer state
+export interface TransferStatus {
+  primaries: string[];
+  transferKey: string | null;
+  serial: number | null;
+  loadedAt: string | null;
+  refreshAt: string | null;
+  expiresAt: string | null;
+  error?: string;
+}
+export async function getDomainTransfer(domainId: string) {
+  return apiFetch<TransferStatus>(`/domains/${domainId}/transfer`, { method: 'GET' });
+}
+
+// DNSSEC
+export interface DnssecKey {
+  id: string;
+  keyTag: number;
+  role: 'KSK' | 'ZSK' | 'CSK';
+  algorithm: number;
+  state: string;
+  dsState: string | null;
+  publishedAt: string | null;
+  activatedAt: string | null;
+  retireAt: string | null;
+  removeAt: string | null;
+}
+export interface DnssecStatus {
+  enabled: boolean;
+  supported: boolean;
+  keys: DnssecKey[];
+  ds: Array<{ keyTag: number; algorithm: number; digestType: number; digest: string; record: string }>;
+  error?: string;
+}
+export async function getDomainDnssec(domainId: string) {
+  return apiFetch<DnssecStatus>(`/domains/${domainId}/dnssec`, { method: 'GET' });
+}
+export async function setDomainDnssec(domainId: string, enabled: boolean) {
+  return apiFetch<DnssecStatus>(`/domains/${domainId}/dnssec`, {
+    method: 'PUT',
+    body: JSON.stringify({ enabled }),
+  });
+}
+
+// Delegated subdomains; glue addresses only for nameservers below the cut
+export interface DelegationNameServer {
+  hostname: string;
+  ipv4: string | null;
+  ipv6: string | null;
+}
+export interface Delegation {
+  id: string;
+  name: string;
+  ttl: number;
+  nameServers: DelegationNameServer[];
+}
+export type DelegationInput = Omit<Delegation, 'id'>;
+export async function getDelegations(domainId: string) {
+  return apiFetch<Delegation[]>(`/domains/${domainId}/delegations`, { method: 'GET' });
+}
+export async function createDelegation(domainId: string, data: DelegationInput) {
+  return apiFetch<Delegation>(`/domains/${domainId}/delegations`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+export async function updateDelegation(domainId: string, id: string, data: DelegationInput) {
+  return apiFetch<Delegation>(`/domains/${domainId}/delegations/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+export async function deleteDelegation(domainId: string, id: string) {
+  return apiFetch<void>(`/domains/${domainId}/delegations/${id}`, { method: 'DELETE' });
+}
+
+// Drift between the database, the zone files and the server
+export interface RRSet {
+  name: string;
+  type: string;
+  ttl: number;
+  contents: string[];
+}
+export interface DriftCheck {
+  status: 'in-sync' | 'drifted' | 'missing' | 'unavailable';
+  diffs: Array<{ before: RRSet | null; after: RRSet | null }>;
+  error?: string;
+}
+export interface ZoneDrift {
+  domainId: string;
+  zone: string;
+  inSync: boolean;
+  files: Array<DriftCheck & { view: string | null }>;
+  server: DriftCheck;
+  checkedAt: string;
+}
+export async function getDomainDrift(domainId: string) {
+  return apiFetch<ZoneDrift>(`/domains/${domainId}/drift`, { method: 'GET' });
+}
+
+// Split-horizon views
+export interface View {
+  id: string;
+  name: string;
+  matchClients: string[];
+  position: number;
+  records: number;
+}
+export async function getViews() {
+  return apiFetch<View[]>('/views', { method: 'GET' });
+}
+
 // DNS Records
 export async function getDNSRecords(domainId: string) { 
   return apiFetch(`/domains/${domainId}/records`, { method: 'GET' });
 }
 export async function createDNSRecord(domainId: string, data: any) {
-  return apiFetch(`/records/${domainId}`, {
+  return apiFetch(`/dns-records/${domainId}`, {
     method: 'POST',
     body: JSON.stringify(data),
   });
 }
 export async function updateDNSRecord(id: string, data: any) {
-  return apiFetch(`/records/${id}`, {
+  return apiFetch(`/dns-records/${id}`, {
     method: 'PUT',
     body: JSON.stringify(data),
   });
 }
 export async function deleteDNSRecord(id: string) {
-  return apiFetch(`/records/${id}`, { method: 'DELETE' });
+  return apiFetch(`/dns-records/${id}`, { method: 'DELETE' });
+}
+
+// Dry run of record changes: the zone file diff they cause and what is
+// wrong with them
+export type RecordChange =
+  | { action: 'create'; record: Record<string, unknown> }
+  | { action: 'update'; id: string; record: Record<string, unknown> }
+  | { action: 'delete'; id: string };
+export interface LintIssue {
+  rule: string;
+  severity: 'error' | 'warning';
+  name: string;
+  type: string;
+  message: string;
+  recordIds: string[];
+}
+export interface RecordChangePreview {
+  valid: boolean;
+  errors: Array<{ index: number; error: string; fields?: Record<string, string> }>;
+  issues: LintIssue[];
+  serial: number;
+  files: Array<{ view: string | null; diff: string; error: string | null }>;
+}
+export async function previewRecordChanges(domainId: string, changes: RecordChange[]) {
+  return apiFetch<RecordChangePreview>(`/domains/${domainId}/preview`, {
+    method: 'POST',
+    body: JSON.stringify({ changes }),
+  });
+}
+// Applies the changes together with one sync, or none of them; returns the
+// domain's records afterwards
+export async function applyRecordChanges(domainId: string, changes: RecordChange[]) {
+  return apiFetch(`/domains/${domainId}/changesets`, {
+    method: 'POST',
+    body: JSON.stringify({ changes }),
+  });
+}
+
+// Zone import
+export interface ImportedRecord {
+  name: string;
+  type: string;
+  value: string;
+  ttl: number;
+  priority: number | null;
+  weight: number | null;
+  port: number | null;
+  line: number;
+}
+export interface ZoneImportPreview {
+  adds: ImportedRecord[];
+  conflicts: Array<{
+    name: string;
+    type: string;
+    existing: Array<{ id: string; name: string; type: string; value: string; ttl: number }>;
+    imported: ImportedRecord[];
+  }>;
+  unchanged: number;
+  skipped: Array<{ line: number; reason: string }>;
+  errors: Array<{ line: number; message: string }>;
+  created?: number;
+  removed?: number;
+}
+export async function previewZoneImport(domainId: string, zone: string) {
+  return apiFetch<ZoneImportPreview>(`/domains/${domainId}/import`, {
+    method: 'POST',
+    body: JSON.stringify({ zone }),
+  });
+}
+export async function importZone(domainId: string, zone: string, conflicts: 'keep' | 'replace') {
+  return apiFetch<ZoneImportPreview>(`/domains/${domainId}/import`, {
+    method: 'POST',
+    body: JSON.stringify({ zone, commit: true, conflicts }),
+  });
+}
+
+// Zone export (returns the file as a Blob for download)
+export type ZoneExportFormat = 'bind' | 'json' | 'csv';
+export async function exportZone(domainId: string, format: ZoneExportFormat, view?: string) {
+  const token = getToken();
+  const query = view ? `&view=${encodeURIComponent(view)}` : '';
+  const res = await fetch(`${API_BASE}/domains/${domainId}/export?format=${format}${query}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ message: res.statusText }));
+    throw new Error(error.error || error.message || 'API Error');
+  }
+  return res.blob();
 }
 
 // DNS Load Balancers
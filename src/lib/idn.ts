@@ -0,0 +1,66 @@
+// Display helpers for internationalized domain names. The backend stores
+// A-labels (xn--...); these turn them back into Unicode for the UI.
+
+const BASE = 36;
+const TMIN = 1;
+const TMAX = 26;
+const SKEW = 38;
+const DAMP = 700;
+const INITIAL_BIAS = 72;
+const INITIAL_N = 128;
+
+function adapt(delta: number, numPoints: number, firstTime: boolean) {
+  delta = firstTime ? Math.floor(delta / DAMP) : delta >> 1;
+  delta += Math.floor(delta / numPoints);
+  let k = 0;
+  while (delta > ((BASE - TMIN) * TMAX) >> 1) {
+    delta = Math.floor(delta / (BASE - TMIN));
+    k += BASE;
+  }
+  return k + Math.floor(((BASE - TMIN + 1) * delta) / (delta + SKEW));
+}
+
+function digitValue(code: number) {
+  if (code >= 0x30 && code <= 0x39) return code - 0x30 + 26;
+  if (code >= 0x41 && code <= 0x5a) return code - 0x41;
+  if (code >= 0x61 && code <= 0x7a) return code - 0x61;
+  return BASE;
+}
+
+// RFC 3492 Punycode decoding of one label without the xn-- prefix, or null
+// if it is not valid Punycode
+function decodePunycode(input: string): string | null {
+  const output: number[] = [];
+  const basic = input.lastIndexOf('-');
+  for (let j = 0; j < basic; j++) output.push(input.charCodeAt(j));
+
+  let n = INITIAL_N;
+  let bias = INITIAL_BIAS;
+  let i = 0;
+  for (let index = basic > 0 ? basic + 1 : 0; index < input.length;) {
+    const oldi = i;
+    for (let w = 1, k = BASE; ; k += BASE) {
+      if (index >= input.length) return null;
+      const digit = digitValue(input.charCodeAt(index++));
+      if (digit >= BASE) return null;
+      i += digit * w;
+      const t = k <= bias ? TMIN : k >= bias + TMAX ? TMAX : k - bias;
+      if (digit < t) break;
+      w *= BASE - t;
+    }
+    bias = adapt(i - oldi, output.length + 1, oldi === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    output.splice(i++, 0, n);
+  }
+
+  return String.fromCodePoint(...output);
+}
+
+// U-label form of a name; labels that do not decode are shown as they are
+export function toUnicodeName(name: string) {
+  return name
+    .split('.')
+    .map((label) => (label.toLowerCase().startsWith('xn--') ? decodePunycode(label.slice(4)) ?? label : label))
+    .join('.');
+}
@@ -0,0 +1,108 @@
+// Record types the forms offer, and the structured fields of the types whose
+// data is more than a single value. Keys match DNSRecord.rdata on the backend.
+
+export const DNS_RECORD_TYPES = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'NS', 'PTR', 'SRV', 'CAA', 'TLSA', 'SSHFP', 'NAPTR', 'DS', 'HTTPS', 'SVCB'];
+
+export interface RecordDataField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  defaultValue?: string;
+  numeric?: boolean;
+  // Fixed choices, shown as a select
+  options?: Array<{ value: string; label: string }>;
+  // Takes the full width of the form
+  wide?: boolean;
+}
+
+const svcbFields: RecordDataField[] = [
+  { key: 'priority', label: 'Priority', numeric: true, defaultValue: '1', placeholder: '0 = alias' },
+  { key: 'target', label: 'Target', defaultValue: '.', placeholder: '. or svc.example.com.' },
+  { key: 'params', label: 'Parameters', placeholder: 'alpn=h2,h3 port=443', wide: true },
+];
+
+export const RECORD_DATA_FIELDS: Record<string, RecordDataField[]> = {
+  CAA: [
+    { key: 'flags', label: 'Flags', numeric: true, defaultValue: '0', options: [{ value: '0', label: '0' }, { value: '128', label: '128 (critical)' }] },
+    {
+      key: 'tag', label: 'Tag', defaultValue: 'issue', options: [
+        { value: 'issue', label: 'issue' },
+        { value: 'issuewild', label: 'issuewild' },
+        { value: 'iodef', label: 'iodef' },
+      ]
+    },
+    { key: 'value', label: 'Value', placeholder: 'letsencrypt.org or mailto:security@example.com', wide: true },
+  ],
+  TLSA: [
+    {
+      key: 'usage', label: 'Usage', defaultValue: '3', options: [
+        { value: '0', label: '0 PKIX-TA' },
+        { value: '1', label: '1 PKIX-EE' },
+        { value: '2', label: '2 DANE-TA' },
+        { value: '3', label: '3 DANE-EE' },
+      ]
+    },
+    { key: 'selector', label: 'Selector', defaultValue: '1', options: [{ value: '0', label: '0 Full certificate' }, { value: '1', label: '1 Public key' }] },
+    {
+      key: 'matchingType', label: 'Matching type', defaultValue: '1', options: [
+        { value: '0', label: '0 Exact' },
+        { value: '1', label: '1 SHA-256' },
+        { value: '2', label: '2 SHA-512' },
+      ]
+    },
+    { key: 'certificate', label: 'Certificate data (hex)', wide: true },
+  ],
+  SSHFP: [
+    {
+      key: 'algorithm', label: 'Algorithm', defaultValue: '4', options: [
+        { value: '1', label: '1 RSA' },
+        { value: '2', label: '2 DSA' },
+        { value: '3', label: '3 ECDSA' },
+        { value: '4', label: '4 Ed25519' },
+        { value: '6', label: '6 Ed448' },
+      ]
+    },
+    { key: 'fingerprintType', label: 'Fingerprint type', defaultValue: '2', options: [{ value: '1', label: '1 SHA-1' }, { value: '2', label: '2 SHA-256' }] },
+    { key: 'fingerprint', label: 'Fingerprint (hex)', wide: true },
+  ],
+  NAPTR: [
+    { key: 'order', label: 'Order', numeric: true, placeholder: '100' },
+    { key: 'preference', label: 'Preference', numeric: true, placeholder: '10' },
+    { key: 'flags', label: 'Flags', placeholder: 'U, S, A or P' },
+    { key: 'service', label: 'Service', placeholder: 'E2U+sip' },
+    { key: 'regexp', label: 'Regexp', placeholder: '!^.*$!sip:info@example.com!', wide: true },
+    { key: 'replacement', label: 'Replacement', defaultValue: '.', wide: true },
+  ],
+  DS: [
+    { key: 'keyTag', label: 'Key tag', numeric: true, placeholder: '12345' },
+    {
+      key: 'algorithm', label: 'Algorithm', defaultValue: '13', options: [
+        { value: '8', label: '8 RSASHA256' },
+        { value: '10', label: '10 RSASHA512' },
+        { value: '13', label: '13 ECDSAP256SHA256' },
+        { value: '14', label: '14 ECDSAP384SHA384' },
+        { value: '15', label: '15 ED25519' },
+        { value: '16', label: '16 ED448' },
+      ]
+    },
+    {
+      key: 'digestType', label: 'Digest type', defaultValue: '2', options: [
+        { value: '1', label: '1 SHA-1' },
+        { value: '2', label: '2 SHA-256' },
+        { value: '4', label: '4 SHA-384' },
+      ]
+    },
+    { key: 'digest', label: 'Digest (hex)', wide: true },
+  ],
+  HTTPS: svcbFields,
+  SVCB: svcbFields,
+};
+
+// Initial field values for a type
+export function defaultRecordData(type: string) {
+  const data: Record<string, string> = {};
+  for (const field of RECORD_DATA_FIELDS[type] || []) {
+    if (field.defaultValue !== undefined) data[field.key] = field.defaultValue;
+  }
+  return data;
+}
@@ -18,6 +18,7 @@ import {
   Loader2
 } from "lucide-react";
 import { getDNSLoadBalancers, getDomains, getUsers } from "@/lib/api";
+import { toUnicodeName } from "@/lib/idn";
 
 interface DNSLoadBalancer {
   id: string;
@@ -351,7 +352,7 @@ export const Admin = () => {
                         <Globe className="h-5 w-5 text-white" />
                       </div>
                       <div>
-                        <p className="font-medium">{domain.name}</p>
+                        <p className="font-medium">{toUnicodeName(domain.name)}</p>
                         <p className="text-sm text-muted-foreground">
                           {domain.records.length} DNS kaydı • {new Date(domain.createdAt).toLocaleDateString('tr-TR')}
                         </p>
@@ -1,12 +1,16 @@
 import { useState } from "react";
 import { DomainList } from "@/components/domains/DomainList";
 import { DNSRecordsList } from "@/components/dns/DNSRecordsList";
+import { DNSSECPanel } from "@/components/dns/DNSSECPanel";
+import { DelegationsPanel } from "@/components/dns/DelegationsPanel";
+import { ZoneDriftCard } from "@/components/dns/ZoneDriftCard";
 
 interface Domain {
   id: string;
   name: string;
   description: string;
   status: string;
+  zoneType?: string;
   created_at: string;
   updated_at: string;
 }
@@ -35,7 +39,12 @@ export const Domains = () => {
         {/* DNS Records Main Content */}
         <div className="lg:col-span-2">
           {selectedDomain ? (
-            <DNSRecordsList domain={selectedDomain} />
+            <div className="space-y-8">
+              <DNSRecordsList domain={selectedDomain} />
+              {selectedDomain.zoneType !== 'secondary' && <DelegationsPanel domain={selectedDomain} />}
+              {selectedDomain.zoneType !== 'secondary' && <ZoneDriftCard domainId={selectedDomain.id} />}
+              <DNSSECPanel domain={selectedDomain} />
+            </div>
           ) : (
             <div className="bg-card rounded-lg shadow-elegant p-8 text-center">
               <h2 className="text-xl font-semibold mb-2">Select a Domain</h2>